@@ -8,7 +8,7 @@ import {
   useParams,
 } from "react-router-dom";
 import { gsap } from "gsap";
-import { Toaster } from "react-hot-toast";
+import toast, { Toaster } from "react-hot-toast";
 import {
   Clock,
   BarChart3,
@@ -16,6 +16,9 @@ import {
   Home,
   ArrowLeft,
   PieChart,
+  Inbox,
+  Trash2,
+  Merge,
 } from "lucide-react";
 import Timer from "./components/Timer";
 import Analytics from "./components/Analytics";
@@ -24,16 +27,41 @@ import ProjectDashboard from "./components/ProjectDashboard";
 import ProjectOverview from "./components/ProjectOverview";
 import PageTransition from "./components/PageTransition";
 import Modal from "./components/Modal";
+import MiniTimer from "./components/MiniTimer";
+import SessionRecoveryModal from "./components/SessionRecoveryModal";
+import InterruptionInbox from "./components/InterruptionInbox";
+import Trash from "./components/Trash";
+import CategoryDeleteModal from "./components/CategoryDeleteModal";
+import CategoryMergeModal from "./components/CategoryMergeModal";
 import { useProjectStore } from "./stores/projectStore";
 import { useSettingsStore } from "./stores/settingsStore";
-import { initializeDatabase } from "./services/database";
+import { useInterruptionStore } from "./stores/interruptionStore";
+import { useTaskStore } from "./stores/taskStore";
+import { useTagStore } from "./stores/tagStore";
+import { initializeDatabase, trashService } from "./services/database";
+import { integrityService } from "./services/integrity";
+import { startTimerEngine } from "./services/timerEngine";
+import {
+  recoverTimerCheckpoint,
+  startTimerPersistence,
+  type TimerRecovery,
+} from "./services/timerPersistence";
+import {
+  startTimerSync,
+  subscribeToLeadership,
+  waitForTimerRole,
+} from "./services/timerSync";
 import { initializeTheme } from "./utils/theme";
+import type { Category } from "./types";
 
 const Navigation: React.FC = () => {
   const location = useLocation();
   const [showSettings, setShowSettings] = useState(false);
+  const [showInbox, setShowInbox] = useState(false);
   const { projectId } = useParams();
   const { currentProject } = useProjectStore();
+  const { interruptions } = useInterruptionStore();
+  const unreviewedCount = interruptions.filter((i) => !i.reviewed).length;
 
   // Show project navigation when we're on a project page (check URL path)
   const isProjectPage = location.pathname.startsWith("/project/");
@@ -52,7 +80,10 @@ const Navigation: React.FC = () => {
           icon: PieChart,
         },
       ]
-    : [{ path: "/", label: "Projects", icon: Home }];
+    : [
+        { path: "/", label: "Projects", icon: Home },
+        { path: "/trash", label: "Trash", icon: Trash2 },
+      ];
 
   return (
     <>
@@ -88,6 +119,8 @@ const Navigation: React.FC = () => {
             </div>
 
             <div className="flex items-center space-x-4">
+              <MiniTimer />
+
               {navItems.map((item) => {
                 const isActive = location.pathname === item.path;
                 const Icon = item.icon;
@@ -107,6 +140,19 @@ const Navigation: React.FC = () => {
                 );
               })}
 
+              <button
+                onClick={() => setShowInbox(true)}
+                className="relative p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+                aria-label={`Interruption inbox (${unreviewedCount} to review)`}
+              >
+                <Inbox size={20} />
+                {unreviewedCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 flex items-center justify-center rounded-full bg-red-500 text-white text-xs font-medium">
+                    {unreviewedCount}
+                  </span>
+                )}
+              </button>
+
               <button
                 onClick={() => setShowSettings(true)}
                 className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -122,6 +168,11 @@ const Navigation: React.FC = () => {
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
       />
+
+      <InterruptionInbox
+        isOpen={showInbox}
+        onClose={() => setShowInbox(false)}
+      />
     </>
   );
 };
@@ -299,12 +350,15 @@ const CategorySelector: React.FC = () => {
     setCurrentCategory,
     createCategory,
     updateCategory,
-    deleteCategory,
   } = useProjectStore();
   const [isCategoryDropdownOpen, setIsCategoryDropdownOpen] = useState(false);
   const [showCategoryForm, setShowCategoryForm] = useState(false);
   const [editingCategory, setEditingCategory] = useState<any>(null);
   const [categoryForm, setCategoryForm] = useState({ name: "" });
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(
+    null
+  );
+  const [categoryToMerge, setCategoryToMerge] = useState<Category | null>(null);
 
   const handleCreateCategory = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -338,14 +392,14 @@ const CategorySelector: React.FC = () => {
     }
   };
 
-  const handleDeleteCategory = async (category: any) => {
-    if (window.confirm(`Are you sure you want to delete "${category.name}"?`)) {
-      try {
-        await deleteCategory(category.id);
-      } catch (error) {
-        console.error("Error deleting category:", error);
-      }
-    }
+  const handleDeleteCategory = (category: Category) => {
+    setCategoryToDelete(category);
+    setIsCategoryDropdownOpen(false);
+  };
+
+  const handleMergeCategory = (category: Category) => {
+    setCategoryToMerge(category);
+    setIsCategoryDropdownOpen(false);
   };
 
   const openEditCategory = (category: any) => {
@@ -430,6 +484,16 @@ const CategorySelector: React.FC = () => {
                         />
                       </svg>
                     </button>
+                    {currentProject.categories.length > 1 && (
+                      <button
+                        onClick={() => handleMergeCategory(category)}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        title="Merge into another category"
+                        aria-label={`Merge ${category.name} into another category`}
+                      >
+                        <Merge size={16} />
+                      </button>
+                    )}
                     <button
                       onClick={() => handleDeleteCategory(category)}
                       className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
@@ -529,6 +593,16 @@ const CategorySelector: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <CategoryDeleteModal
+        category={categoryToDelete}
+        onClose={() => setCategoryToDelete(null)}
+      />
+
+      <CategoryMergeModal
+        category={categoryToMerge}
+        onClose={() => setCategoryToMerge(null)}
+      />
     </div>
   );
 };
@@ -545,6 +619,14 @@ const AnimatedRoutes: React.FC = () => {
           </PageTransition>
         }
       />
+      <Route
+        path="/trash"
+        element={
+          <PageTransition>
+            <Trash />
+          </PageTransition>
+        }
+      />
       <Route
         path="/project/:projectId"
         element={
@@ -575,14 +657,42 @@ const AnimatedRoutes: React.FC = () => {
 
 const App: React.FC = () => {
   const [isInitialized, setIsInitialized] = useState(false);
+  const [recovery, setRecovery] = useState<TimerRecovery | null>(null);
+  const [isTimerLeader, setIsTimerLeader] = useState(true);
   const { loadProjects } = useProjectStore();
   const { loadSettings } = useSettingsStore();
+  const { loadInterruptions } = useInterruptionStore();
+  const { loadTasks } = useTaskStore();
+  const { loadTags } = useTagStore();
 
   // Initialize theme immediately on app start
   useEffect(() => {
     initializeTheme();
   }, []);
 
+  // Share one timer between all open tabs
+  useEffect(() => {
+    const unsubscribe = subscribeToLeadership(setIsTimerLeader);
+    const stopSync = startTimerSync();
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
+  }, []);
+
+  // Keep the timer ticking and completing sessions on every route
+  useEffect(() => {
+    return startTimerEngine();
+  }, []);
+
+  // Checkpoint the timer once any recovered session has been dealt with, so
+  // the checkpoint is not overwritten before the user decides. Only the tab
+  // that owns the timer writes it.
+  useEffect(() => {
+    if (!isInitialized || recovery || !isTimerLeader) return;
+    return startTimerPersistence();
+  }, [isInitialized, recovery, isTimerLeader]);
+
   useEffect(() => {
     const initializeApp = async () => {
       try {
@@ -590,7 +700,49 @@ const App: React.FC = () => {
         await initializeDatabase();
 
         // Load initial data
-        await Promise.all([loadProjects(), loadSettings()]);
+        await Promise.all([
+          loadProjects(),
+          loadSettings(),
+          loadInterruptions(),
+          loadTasks(),
+          loadTags(),
+        ]);
+
+        // Clear out what has outlived the trash retention period
+        try {
+          await trashService.purgeExpired(
+            useSettingsStore.getState().settings.trashRetentionDays
+          );
+        } catch (error) {
+          console.error("Error purging trash:", error);
+        }
+
+        // Point out broken data early, if the user asked for it
+        if (useSettingsStore.getState().settings.integrityCheckOnStartup) {
+          try {
+            const { issues } = await integrityService.scan();
+            if (issues.length > 0) {
+              toast.error(
+                `Found ${issues.length} kind${
+                  issues.length !== 1 ? "s" : ""
+                } of data problem. Review them under Settings → Data.`,
+                { duration: 8000 }
+              );
+            }
+          } catch (error) {
+            console.error("Error checking data integrity:", error);
+          }
+        }
+
+        // Pick up a timer left running or paused by a reload or crash. Other
+        // tabs get the live timer from the tab that owns it instead.
+        try {
+          if (await waitForTimerRole()) {
+            setRecovery(await recoverTimerCheckpoint());
+          }
+        } catch (error) {
+          console.error("Error recovering timer session:", error);
+        }
 
         setIsInitialized(true);
       } catch (error) {
@@ -600,7 +752,7 @@ const App: React.FC = () => {
     };
 
     initializeApp();
-  }, [loadProjects, loadSettings]);
+  }, [loadProjects, loadSettings, loadInterruptions, loadTasks, loadTags]);
 
   // Request notification permission on app start
   useEffect(() => {
@@ -640,6 +792,10 @@ const App: React.FC = () => {
         <main>
           <AnimatedRoutes />
         </main>
+        <SessionRecoveryModal
+          recovery={recovery}
+          onResolved={() => setRecovery(null)}
+        />
         <Toaster
           position="top-right"
           toastOptions={{
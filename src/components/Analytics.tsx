@@ -27,14 +27,28 @@ import {
   CalendarDays,
   Filter,
   Download,
+  FileSpreadsheet,
   RefreshCw,
   Eye,
   EyeOff,
+  Plus,
 } from "lucide-react";
 import { useProjectStore } from "../stores/projectStore";
-import { sessionService } from "../services/database";
+import { useTagStore } from "../stores/tagStore";
+import { sessionService, interruptionService } from "../services/database";
+import { subscribeToSessionChanges } from "../services/sessionEvents";
 import { fadeIn } from "../utils/animations";
-import type { TimerSession, Project } from "../types";
+import {
+  getPauseStats,
+  summarizePauses,
+  isFocusSession,
+  isPomodoroSession,
+  isManualSession,
+} from "../utils/sessionStats";
+import { downloadFile } from "../utils/download";
+import ManualEntryForm from "./ManualEntryForm";
+import CsvExportModal from "./CsvExportModal";
+import type { TimerSession, Project, Interruption } from "../types";
 
 const COLORS = [
   "#3b82f6",
@@ -69,13 +83,21 @@ const TIME_RANGES: TimeRange[] = [
 
 const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
   const [sessions, setSessions] = useState<TimerSession[]>([]);
+  const [interruptions, setInterruptions] = useState<Interruption[]>([]);
   const [timeRange, setTimeRange] = useState<TimeRange>(TIME_RANGES[1]);
   const [isLoading, setIsLoading] = useState(true);
   const [showBreaks, setShowBreaks] = useState(false);
+  const [entrySource, setEntrySource] = useState<"all" | "timer" | "manual">(
+    "all"
+  );
+  const [showManualEntry, setShowManualEntry] = useState(false);
+  const [showCsvExport, setShowCsvExport] = useState(false);
   const [selectedProject, setSelectedProject] = useState<string | null>(
     projectId || null
   );
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const { projects, loadProjects, currentProject } = useProjectStore();
+  const { tags } = useTagStore();
 
   // GSAP refs
   const chartsRef = useRef<HTMLDivElement>(null);
@@ -91,7 +113,9 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
   // Load sessions when component mounts or dependencies change
   useEffect(() => {
     loadSessions();
-  }, [timeRange, selectedProject, projects.length]);
+    // Pick up sessions saved, edited or removed anywhere in the app
+    return subscribeToSessionChanges(loadSessions);
+  }, [timeRange, selectedProject, entrySource, selectedTag, projects.length]);
 
   // GSAP animations
   useEffect(() => {
@@ -103,31 +127,51 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
     }
   }, []);
 
+  // Unlike the dashboards, analytics reads the sessions in range rather than
+  // the daily rollups: the entry source and tag filters, the pause figures
+  // and the hour-of-day chart all need each session's own fields
   const loadSessions = async () => {
     try {
       setIsLoading(true);
 
-      // Get all sessions first
-      const allSessions = await sessionService.getAll();
-
       // Filter by date range
       const endDate = new Date();
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - timeRange.days);
 
-      const dateFilteredSessions = allSessions.filter((session) => {
-        const sessionDate = new Date(session.startTime);
-        return sessionDate >= startDate && sessionDate <= endDate;
-      });
+      const [dateFilteredSessions, rangeInterruptions] = await Promise.all([
+        sessionService.getByDateRange(startDate, endDate),
+        interruptionService.getByDateRange(startDate, endDate),
+      ]);
 
       // Filter by project if specified
-      const finalSessions = selectedProject
+      const projectSessions = selectedProject
         ? dateFilteredSessions.filter(
             (session) => session.projectId === selectedProject
           )
         : dateFilteredSessions;
 
+      // Tracked and hand-entered time can be looked at separately
+      const sourceSessions =
+        entrySource === "all"
+          ? projectSessions
+          : projectSessions.filter(
+              (session) =>
+                isManualSession(session) === (entrySource === "manual")
+            );
+
+      const finalSessions = selectedTag
+        ? sourceSessions.filter((session) =>
+            session.tagIds?.includes(selectedTag)
+          )
+        : sourceSessions;
+
       setSessions(finalSessions);
+      setInterruptions(
+        selectedProject
+          ? rangeInterruptions.filter((i) => i.projectId === selectedProject)
+          : rangeInterruptions
+      );
     } catch (error) {
       console.error("Error loading sessions:", error);
     } finally {
@@ -137,8 +181,12 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
 
   // Memoized analytics calculations
   const analyticsData = useMemo(() => {
-    const workSessions = sessions.filter((s) => s.type === "work");
-    const breakSessions = sessions.filter((s) => s.type !== "work");
+    // Stopwatch tracking counts as focus time, but only planned work
+    // sessions can be completed or cut short
+    const workSessions = sessions.filter(isFocusSession);
+    const breakSessions = sessions.filter((s) => !isFocusSession(s));
+    const pomodoroSessions = workSessions.filter(isPomodoroSession);
+    const openEndedSessions = workSessions.filter((s) => s.openEnded);
     const allSessions = showBreaks ? sessions : workSessions;
 
     // Calculate total focused time in minutes
@@ -150,12 +198,14 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
       return sum + session.actualDuration / (1000 * 60);
     }, 0);
 
-    const completedSessions = workSessions.filter((s) => s.completed).length;
+    const completedSessions = pomodoroSessions.filter(
+      (s) => s.completed
+    ).length;
     const averageSessionLength =
       workSessions.length > 0 ? totalFocusedTime / workSessions.length : 0;
     const completionRate =
-      workSessions.length > 0
-        ? (completedSessions / workSessions.length) * 100
+      pomodoroSessions.length > 0
+        ? (completedSessions / pomodoroSessions.length) * 100
         : 0;
 
     // Productivity score (based on completion rate and consistency)
@@ -172,6 +222,7 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
         const projectSessions = workSessions.filter(
           (s) => s.projectId === project.id
         );
+        const projectPomodoros = projectSessions.filter(isPomodoroSession);
         const totalTime = projectSessions.reduce((sum, session) => {
           return sum + session.actualDuration / (1000 * 60);
         }, 0);
@@ -182,9 +233,9 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
           sessions: projectSessions.length,
           color: project.color,
           completionRate:
-            projectSessions.length > 0
-              ? (projectSessions.filter((s) => s.completed).length /
-                  projectSessions.length) *
+            projectPomodoros.length > 0
+              ? (projectPomodoros.filter((s) => s.completed).length /
+                  projectPomodoros.length) *
                 100
               : 0,
         };
@@ -202,18 +253,26 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
 
       if (category) {
         const sessionTime = session.actualDuration / (1000 * 60);
+        const { pauseCount, totalPausedTime } = getPauseStats(session);
         const existing = categoryMap.get(category.id);
 
         if (existing) {
           existing.time += sessionTime;
           existing.sessions += 1;
-          existing.completed += session.completed ? 1 : 0;
+          existing.pomodoros += isPomodoroSession(session) ? 1 : 0;
+          existing.completed +=
+            isPomodoroSession(session) && session.completed ? 1 : 0;
+          existing.pauses += pauseCount;
+          existing.pausedTime += totalPausedTime / (1000 * 60);
         } else {
           categoryMap.set(category.id, {
             name: category.name,
             time: sessionTime,
             sessions: 1,
-            completed: session.completed ? 1 : 0,
+            pomodoros: isPomodoroSession(session) ? 1 : 0,
+            completed: isPomodoroSession(session) && session.completed ? 1 : 0,
+            pauses: pauseCount,
+            pausedTime: totalPausedTime / (1000 * 60),
           });
         }
       }
@@ -223,12 +282,34 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
       .map((cat) => ({
         ...cat,
         time: Math.round(cat.time),
+        pausedTime: Math.round(cat.pausedTime),
+        averagePauses: cat.sessions > 0 ? cat.pauses / cat.sessions : 0,
         completionRate:
-          cat.sessions > 0 ? (cat.completed / cat.sessions) * 100 : 0,
+          cat.pomodoros > 0 ? (cat.completed / cat.pomodoros) * 100 : 0,
       }))
       .filter((cat) => cat.time > 0)
       .sort((a, b) => b.time - a.time);
 
+    // Tag breakdown; a session with several tags counts toward each
+    const tagBreakdown = tags
+      .map((tag) => {
+        const tagSessions = workSessions.filter((s) =>
+          s.tagIds?.includes(tag.id)
+        );
+        const totalTime = tagSessions.reduce((sum, session) => {
+          return sum + session.actualDuration / (1000 * 60);
+        }, 0);
+
+        return {
+          name: `#${tag.name}`,
+          time: Math.round(totalTime),
+          sessions: tagSessions.length,
+          color: tag.color,
+        };
+      })
+      .filter((t) => t.time > 0)
+      .sort((a, b) => b.time - a.time);
+
     // Daily breakdown with more detailed data
     const dailyMap = new Map();
     allSessions.forEach((session) => {
@@ -239,7 +320,7 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
       if (existing) {
         existing.time += sessionTime;
         existing.sessions += 1;
-        if (session.type === "work") {
+        if (isFocusSession(session)) {
           existing.workTime += sessionTime;
           existing.workSessions += 1;
         } else {
@@ -251,10 +332,10 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
           date,
           time: sessionTime,
           sessions: 1,
-          workTime: session.type === "work" ? sessionTime : 0,
-          workSessions: session.type === "work" ? 1 : 0,
-          breakTime: session.type !== "work" ? sessionTime : 0,
-          breakSessions: session.type !== "work" ? 1 : 0,
+          workTime: isFocusSession(session) ? sessionTime : 0,
+          workSessions: isFocusSession(session) ? 1 : 0,
+          breakTime: !isFocusSession(session) ? sessionTime : 0,
+          breakSessions: !isFocusSession(session) ? 1 : 0,
         });
       }
     });
@@ -286,22 +367,84 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
       .map((hour) => ({ ...hour, time: Math.round(hour.time) }))
       .sort((a, b) => parseInt(a.hour) - parseInt(b.hour));
 
+    // Pause behavior across work sessions
+    const pauseSummary = summarizePauses(workSessions);
+
     return {
       totalFocusedTime: Math.round(totalFocusedTime),
       totalBreakTime: Math.round(totalBreakTime),
       completedSessions,
       totalSessions: workSessions.length,
+      openEndedSessions: openEndedSessions.length,
       averageSessionLength: Math.round(averageSessionLength),
       completionRate: Math.round(completionRate),
       productivityScore,
       projectBreakdown,
       categoryBreakdown,
+      tagBreakdown,
       dailyBreakdown,
       hourlyBreakdown,
+      totalPauses: pauseSummary.pauseCount,
+      averagePauses: pauseSummary.averagePauses,
+      totalPausedTime: Math.round(pauseSummary.totalPausedTime / (1000 * 60)),
       workSessions,
       breakSessions,
     };
-  }, [sessions, projects, showBreaks]);
+  }, [sessions, projects, tags, showBreaks]);
+
+  // Interruptions logged during work sessions, by project and category
+  const interruptionData = useMemo(() => {
+    const rows = new Map<
+      string,
+      {
+        key: string;
+        projectName: string;
+        categoryName: string;
+        internal: number;
+        external: number;
+      }
+    >();
+
+    // Projects in the trash take their interruptions with them
+    const visibleInterruptions = interruptions.filter((interruption) =>
+      projects.some((p) => p.id === interruption.projectId)
+    );
+
+    visibleInterruptions.forEach((interruption) => {
+      const key = `${interruption.projectId}:${interruption.categoryId}`;
+      if (!rows.has(key)) {
+        const project = projects.find((p) => p.id === interruption.projectId);
+        const category = project?.categories.find(
+          (c) => c.id === interruption.categoryId
+        );
+        rows.set(key, {
+          key,
+          projectName: project?.name || "Unknown",
+          categoryName: category?.name || "Unknown",
+          internal: 0,
+          external: 0,
+        });
+      }
+      rows.get(key)![interruption.kind]++;
+    });
+
+    const internal = visibleInterruptions.filter(
+      (i) => i.kind === "internal"
+    ).length;
+    const workSessionCount = sessions.filter((s) => s.type === "work").length;
+
+    return {
+      internal,
+      external: visibleInterruptions.length - internal,
+      averagePerSession:
+        workSessionCount > 0
+          ? visibleInterruptions.length / workSessionCount
+          : 0,
+      breakdown: Array.from(rows.values()).sort(
+        (a, b) => b.internal + b.external - (a.internal + a.external)
+      ),
+    };
+  }, [interruptions, sessions, projects]);
 
   const formatTime = (minutes: number) => {
     if (minutes < 60) return `${minutes}m`;
@@ -324,19 +467,13 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
       sessions: sessions,
     };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `analytics-${timeRange.value}-${
-      new Date().toISOString().split("T")[0]
-    }.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(
+      JSON.stringify(data, null, 2),
+      `analytics-${timeRange.value}-${
+        new Date().toISOString().split("T")[0]
+      }.json`,
+      "application/json"
+    );
   };
 
   if (isLoading) {
@@ -382,6 +519,37 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
             </select>
           )}
 
+          {/* Entry Source Filter */}
+          <select
+            value={entrySource}
+            onChange={(e) =>
+              setEntrySource(e.target.value as "all" | "timer" | "manual")
+            }
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="Entry source"
+          >
+            <option value="all">All Entries</option>
+            <option value="timer">Tracked</option>
+            <option value="manual">Manual</option>
+          </select>
+
+          {/* Tag Filter */}
+          {tags.length > 0 && (
+            <select
+              value={selectedTag || ""}
+              onChange={(e) => setSelectedTag(e.target.value || null)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Tag"
+            >
+              <option value="">All Tags</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  #{tag.name}
+                </option>
+              ))}
+            </select>
+          )}
+
           {/* Time Range Selector */}
           <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
             {TIME_RANGES.map((range) => (
@@ -412,6 +580,15 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
             {showBreaks ? <EyeOff size={16} /> : <Eye size={16} />}
           </button>
 
+          {/* Manual Entry Button */}
+          <button
+            onClick={() => setShowManualEntry(true)}
+            className="p-2 bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
+            title="Add time entry"
+          >
+            <Plus size={16} />
+          </button>
+
           {/* Export Button */}
           <button
             onClick={handleExportData}
@@ -421,6 +598,15 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
             <Download size={16} />
           </button>
 
+          {/* CSV Export Button */}
+          <button
+            onClick={() => setShowCsvExport(true)}
+            className="p-2 bg-green-100 dark:bg-green-900 text-green-600 dark:text-green-400 rounded-lg hover:bg-green-200 dark:hover:bg-green-800 transition-colors"
+            title="Export sessions to CSV"
+          >
+            <FileSpreadsheet size={16} />
+          </button>
+
           {/* Refresh Button */}
           <button
             onClick={loadSessions}
@@ -448,6 +634,8 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
               </p>
               <p className="text-sm text-blue-600 dark:text-blue-400 mt-1">
                 {analyticsData.totalSessions} sessions
+                {analyticsData.openEndedSessions > 0 &&
+                  ` · ${analyticsData.openEndedSessions} stopwatch`}
               </p>
             </div>
             <div className="p-3 bg-blue-100 dark:bg-blue-800 rounded-xl">
@@ -608,6 +796,47 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
             </ResponsiveContainer>
           </div>
         )}
+
+        {/* Tag Breakdown */}
+        {analyticsData.tagBreakdown.length > 0 && (
+          <div className="card">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                Time by Tag
+              </h3>
+              <div className="text-sm text-gray-500">
+                Sessions with several tags count toward each
+              </div>
+            </div>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={analyticsData.tagBreakdown}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="name"
+                  tick={{ fontSize: 12 }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip
+                  formatter={(value) => [`${value} minutes`, "Time"]}
+                  contentStyle={{
+                    backgroundColor: "rgba(255, 255, 255, 0.95)",
+                    border: "1px solid #e5e7eb",
+                    borderRadius: "8px",
+                    boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
+                  }}
+                />
+                <Bar dataKey="time" radius={[4, 4, 0, 0]}>
+                  {analyticsData.tagBreakdown.map((entry) => (
+                    <Cell key={entry.name} fill={entry.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
       </div>
 
       {/* Daily Progress Chart */}
@@ -706,6 +935,112 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
         </div>
       )}
 
+      {/* Pause Behavior */}
+      {analyticsData.totalSessions > 0 && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+              Pause Behavior
+            </h3>
+            <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+              <span>{analyticsData.totalPauses} pauses</span>
+              <span>{analyticsData.averagePauses.toFixed(1)} per session</span>
+              <span>{formatTime(analyticsData.totalPausedTime)} paused</span>
+            </div>
+          </div>
+          {analyticsData.categoryBreakdown.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 font-medium">Category</th>
+                    <th className="py-2 font-medium text-right">Sessions</th>
+                    <th className="py-2 font-medium text-right">Pauses</th>
+                    <th className="py-2 font-medium text-right">
+                      Avg per Session
+                    </th>
+                    <th className="py-2 font-medium text-right">Time Paused</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analyticsData.categoryBreakdown.map((category) => (
+                    <tr
+                      key={category.name}
+                      className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-gray-100"
+                    >
+                      <td className="py-2">{category.name}</td>
+                      <td className="py-2 text-right">{category.sessions}</td>
+                      <td className="py-2 text-right">{category.pauses}</td>
+                      <td className="py-2 text-right">
+                        {category.averagePauses.toFixed(1)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatTime(category.pausedTime)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No category data available
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Interruptions */}
+      {interruptions.length > 0 && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+              Interruptions
+            </h3>
+            <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+              <span>{interruptionData.internal} internal</span>
+              <span>{interruptionData.external} external</span>
+              <span>
+                {interruptionData.averagePerSession.toFixed(1)} per work session
+              </span>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  {!selectedProject && (
+                    <th className="py-2 font-medium">Project</th>
+                  )}
+                  <th className="py-2 font-medium">Category</th>
+                  <th className="py-2 font-medium text-right">Internal</th>
+                  <th className="py-2 font-medium text-right">External</th>
+                  <th className="py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {interruptionData.breakdown.map((row) => (
+                  <tr
+                    key={row.key}
+                    className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-gray-100"
+                  >
+                    {!selectedProject && (
+                      <td className="py-2">{row.projectName}</td>
+                    )}
+                    <td className="py-2">{row.categoryName}</td>
+                    <td className="py-2 text-right">{row.internal}</td>
+                    <td className="py-2 text-right">{row.external}</td>
+                    <td className="py-2 text-right">
+                      {row.internal + row.external}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* No Data State */}
       {sessions.length === 0 && (
         <div className="card text-center py-16">
@@ -731,6 +1066,18 @@ const Analytics: React.FC<AnalyticsProps> = ({ projectId }) => {
           </div>
         </div>
       )}
+
+      <ManualEntryForm
+        isOpen={showManualEntry}
+        onClose={() => setShowManualEntry(false)}
+        projectId={selectedProject || undefined}
+      />
+
+      <CsvExportModal
+        isOpen={showCsvExport}
+        onClose={() => setShowCsvExport(false)}
+        projectId={selectedProject || undefined}
+      />
     </div>
   );
 };
@@ -0,0 +1,247 @@
+import React, { useRef, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import toast from "react-hot-toast";
+import { useProjectStore } from "../stores/projectStore";
+import { useTaskStore } from "../stores/taskStore";
+import { useInterruptionStore } from "../stores/interruptionStore";
+import { useTagStore } from "../stores/tagStore";
+import {
+  backupService,
+  BackupValidationError,
+  type BackupFile,
+  type BackupImportMode,
+  type BackupTablePreview,
+} from "../services/backup";
+import { downloadFile } from "../utils/download";
+
+const TABLE_LABELS: Record<BackupTablePreview["table"], string> = {
+  projects: "Projects",
+  categories: "Categories",
+  sessions: "Sessions",
+  tasks: "Tasks",
+  tags: "Tags",
+  interruptions: "Interruptions",
+};
+
+// Export the whole database to a file, or bring one back in after a preview
+// of what would change
+const BackupRestore: React.FC = () => {
+  const { loadProjects } = useProjectStore();
+  const { loadTasks } = useTaskStore();
+  const { loadInterruptions } = useInterruptionStore();
+  const { loadTags } = useTagStore();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [preview, setPreview] = useState<BackupTablePreview[]>([]);
+  const [mode, setMode] = useState<BackupImportMode>("merge");
+  const [problems, setProblems] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const resetImport = () => {
+    setBackup(null);
+    setPreview([]);
+    setProblems([]);
+    setMode("merge");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleExport = async () => {
+    try {
+      const data = await backupService.export();
+      downloadFile(
+        JSON.stringify(data, null, 2),
+        `sinkyourtime-backup-${new Date().toISOString().split("T")[0]}.json`,
+        "application/json"
+      );
+      toast.success("Backup downloaded");
+    } catch (error) {
+      console.error("Error exporting backup:", error);
+      toast.error("Failed to export backup");
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setProblems([]);
+    try {
+      const parsed = backupService.parse(await file.text());
+      setPreview(await backupService.preview(parsed));
+      setBackup(parsed);
+    } catch (error) {
+      if (error instanceof BackupValidationError) {
+        setProblems(error.problems);
+      } else {
+        console.error("Error reading backup:", error);
+        toast.error("Failed to read backup");
+      }
+      setBackup(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backup) return;
+    if (
+      mode === "replace" &&
+      !window.confirm(
+        "Replace everything with this backup? Anything not in it is deleted."
+      )
+    ) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      await backupService.import(backup, mode);
+      await Promise.all([
+        loadProjects(),
+        loadTasks(),
+        loadInterruptions(),
+        loadTags(),
+      ]);
+      toast.success("Backup imported");
+      resetImport();
+    } catch (error) {
+      console.error("Error importing backup:", error);
+      toast.error(
+        error instanceof BackupValidationError
+          ? error.problems.join(". ")
+          : "Import failed; nothing was changed"
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleExport}
+          className="btn btn-secondary flex items-center space-x-2"
+        >
+          <Download size={16} />
+          <span>Export Backup</span>
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="btn btn-secondary flex items-center space-x-2"
+        >
+          <Upload size={16} />
+          <span>Import Backup</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+          aria-label="Backup file"
+        />
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-400">
+          <p className="font-medium">This backup can't be imported:</p>
+          <ul className="list-disc list-inside">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {backup && (
+        <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Backup from {new Date(backup.exportedAt).toLocaleString()}
+          </p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="font-medium"></th>
+                <th className="font-medium text-right">New</th>
+                {mode === "merge" ? (
+                  <>
+                    <th className="font-medium text-right">Newer</th>
+                    <th className="font-medium text-right">Kept</th>
+                  </>
+                ) : (
+                  <th className="font-medium text-right">Removed</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="text-gray-900 dark:text-gray-100">
+              {preview.map((row) => (
+                <tr key={row.table}>
+                  <td>{TABLE_LABELS[row.table]}</td>
+                  <td className="text-right">{row.added}</td>
+                  {mode === "merge" ? (
+                    <>
+                      <td className="text-right">{row.updated}</td>
+                      <td className="text-right">{row.kept}</td>
+                    </>
+                  ) : (
+                    <td className="text-right">{row.removed}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {mode === "merge" && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Where both have the same item, the copy changed most recently
+              wins. Items last changed before edits were tracked keep the copy
+              on this device.
+            </p>
+          )}
+
+          <div className="space-y-1">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="backup-mode"
+                checked={mode === "merge"}
+                onChange={() => setMode("merge")}
+              />
+              <span>Merge: add new items and take newer copies</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="backup-mode"
+                checked={mode === "replace"}
+                onChange={() => setMode("replace")}
+              />
+              <span>Replace everything, settings included</span>
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={resetImport}
+              className="btn btn-secondary"
+              disabled={isImporting}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              className={`btn ${
+                mode === "replace" ? "btn-danger" : "btn-primary"
+              }`}
+              disabled={isImporting}
+            >
+              {isImporting ? "Importing..." : "Import"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import Modal from "./Modal";
+import { useProjectStore } from "../stores/projectStore";
+import { useTaskStore } from "../stores/taskStore";
+import { useInterruptionStore } from "../stores/interruptionStore";
+import { sessionService } from "../services/database";
+import { showUndoToast } from "../utils/undoToast";
+import type { Category } from "../types";
+
+interface CategoryDeleteModalProps {
+  category: Category | null;
+  onClose: () => void;
+}
+
+// Delete a category, first moving its sessions into another one so none are
+// left pointing at a missing category
+const CategoryDeleteModal: React.FC<CategoryDeleteModalProps> = ({
+  category,
+  onClose,
+}) => {
+  const { projects, deleteCategory, restoreCategory, mergeCategory } =
+    useProjectStore();
+  const { loadTasks } = useTaskStore();
+  const { loadInterruptions } = useInterruptionStore();
+
+  const [sessionCount, setSessionCount] = useState<number | null>(null);
+  const [targetId, setTargetId] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const targets =
+    projects
+      .find((p) => p.id === category?.projectId)
+      ?.categories.filter((c) => c.id !== category?.id) ?? [];
+
+  useEffect(() => {
+    if (!category) return;
+    setSessionCount(null);
+    setTargetId("");
+    sessionService
+      .getByCategory(category.id)
+      .then((sessions) => setSessionCount(sessions.length))
+      .catch((error) => {
+        console.error("Error counting category sessions:", error);
+        setSessionCount(0);
+      });
+  }, [category]);
+
+  if (!category) return null;
+
+  const needsTarget = (sessionCount ?? 0) > 0;
+  const selectedTargetId = targetId || targets[0]?.id || "";
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      if (needsTarget) {
+        const target = targets.find((c) => c.id === selectedTargetId);
+        await mergeCategory(category.id, selectedTargetId);
+        // Tasks and interruptions moved along with the sessions
+        await Promise.all([loadTasks(), loadInterruptions()]);
+        toast.success(
+          `Moved ${sessionCount} session${sessionCount !== 1 ? "s" : ""} to "${
+            target?.name
+          }" and deleted "${category.name}"`
+        );
+      } else {
+        await deleteCategory(category.id);
+        showUndoToast(`Category "${category.name}" moved to trash`, () =>
+          restoreCategory(category.id)
+        );
+      }
+      onClose();
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      toast.error("Failed to delete category");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!category}
+      onClose={onClose}
+      title="Delete Category"
+      className="max-w-md"
+    >
+      <div className="space-y-4">
+        {sessionCount === null ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Checking sessions...
+          </p>
+        ) : needsTarget ? (
+          <>
+            <p className="text-gray-700 dark:text-gray-300">
+              "{category.name}" has {sessionCount} session
+              {sessionCount !== 1 ? "s" : ""}. Pick the category they should
+              move to before it is deleted.
+            </p>
+            {targets.length > 0 ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Move sessions to
+                </label>
+                <select
+                  value={selectedTargetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  className="input"
+                >
+                  {targets.map((target) => (
+                    <option key={target.id} value={target.id}>
+                      {target.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  Its tasks and interruptions move too.
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-amber-600 dark:text-amber-400">
+                Create another category in this project first.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-gray-700 dark:text-gray-300">
+            Move "{category.name}" to the trash? It has no sessions.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            onClick={onClose}
+            className="btn btn-secondary"
+            disabled={isDeleting}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            className="btn btn-danger"
+            disabled={
+              isDeleting ||
+              sessionCount === null ||
+              (needsTarget && !selectedTargetId)
+            }
+          >
+            {isDeleting
+              ? "Deleting..."
+              : needsTarget
+              ? "Move and Delete"
+              : "Delete"}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CategoryDeleteModal;
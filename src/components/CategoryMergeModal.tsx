@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import Modal from "./Modal";
+import { useProjectStore } from "../stores/projectStore";
+import { useTaskStore } from "../stores/taskStore";
+import { useInterruptionStore } from "../stores/interruptionStore";
+import type { Category } from "../types";
+
+interface CategoryMergeModalProps {
+  category: Category | null;
+  onClose: () => void;
+}
+
+// Fold a category into another of the same project, moving its sessions,
+// tasks and interruptions; the emptied category goes to the trash
+const CategoryMergeModal: React.FC<CategoryMergeModalProps> = ({
+  category,
+  onClose,
+}) => {
+  const { projects, mergeCategory } = useProjectStore();
+  const { loadTasks } = useTaskStore();
+  const { loadInterruptions } = useInterruptionStore();
+
+  const [targetId, setTargetId] = useState("");
+  const [isMerging, setIsMerging] = useState(false);
+
+  const targets =
+    projects
+      .find((p) => p.id === category?.projectId)
+      ?.categories.filter((c) => c.id !== category?.id) ?? [];
+
+  useEffect(() => {
+    setTargetId("");
+  }, [category]);
+
+  if (!category) return null;
+
+  const selectedTargetId = targetId || targets[0]?.id || "";
+
+  const handleMerge = async () => {
+    const target = targets.find((c) => c.id === selectedTargetId);
+    if (!target) return;
+
+    setIsMerging(true);
+    try {
+      await mergeCategory(category.id, target.id);
+      await Promise.all([loadTasks(), loadInterruptions()]);
+      toast.success(`Merged "${category.name}" into "${target.name}"`);
+      onClose();
+    } catch (error) {
+      console.error("Error merging categories:", error);
+      toast.error("Failed to merge categories");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!category}
+      onClose={onClose}
+      title="Merge Category"
+      className="max-w-md"
+    >
+      <div className="space-y-4">
+        {targets.length > 0 ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Merge "{category.name}" into
+            </label>
+            <select
+              value={selectedTargetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="input"
+            >
+              {targets.map((target) => (
+                <option key={target.id} value={target.id}>
+                  {target.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Its sessions, tasks and interruptions move over, and "
+              {category.name}" goes to the trash.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            Create another category in this project first.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            onClick={onClose}
+            className="btn btn-secondary"
+            disabled={isMerging}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            className="btn btn-primary"
+            disabled={isMerging || !selectedTargetId}
+          >
+            {isMerging ? "Merging..." : "Merge"}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CategoryMergeModal;
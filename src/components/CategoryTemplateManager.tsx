@@ -0,0 +1,179 @@
+import React, { useState } from "react";
+import { Edit, Plus, Star, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useSettingsStore } from "../stores/settingsStore";
+import {
+  getCategoryTemplates,
+  parseCategoryNames,
+} from "../utils/categoryTemplates";
+import type { CategoryTemplate } from "../types";
+
+// Create, edit and remove category templates, and pick the one new projects
+// start with
+const CategoryTemplateManager: React.FC = () => {
+  const { settings, updateSettings } = useSettingsStore();
+  const templates = getCategoryTemplates(settings);
+
+  // The template being edited; "new" while adding one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [categoriesText, setCategoriesText] = useState("");
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setCategoriesText("");
+  };
+
+  const openEditor = (template?: CategoryTemplate) => {
+    setEditingId(template?.id ?? "new");
+    setName(template?.name ?? "");
+    setCategoriesText(template?.categories.join("\n") ?? "");
+  };
+
+  const handleSaveTemplate = async () => {
+    const categories = parseCategoryNames(categoriesText);
+    if (!name.trim()) {
+      toast.error("Please give the template a name");
+      return;
+    }
+    if (categories.length === 0) {
+      toast.error("Add at least one category");
+      return;
+    }
+
+    const template = {
+      id: editingId === "new" ? crypto.randomUUID() : editingId!,
+      name: name.trim(),
+      categories,
+    };
+    await updateSettings({
+      categoryTemplates:
+        editingId === "new"
+          ? [...templates, template]
+          : templates.map((t) => (t.id === template.id ? template : t)),
+    });
+    toast.success(editingId === "new" ? "Template created!" : "Template saved");
+    resetForm();
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    await updateSettings({
+      categoryTemplates: templates.filter((t) => t.id !== templateId),
+      // New projects start empty once their template is gone
+      ...(settings.defaultCategoryTemplateId === templateId && {
+        defaultCategoryTemplateId: "",
+      }),
+    });
+    toast.success("Template deleted");
+  };
+
+  const handleSetDefault = async (templateId: string) => {
+    await updateSettings({ defaultCategoryTemplateId: templateId });
+  };
+
+  const editor = (
+    <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="input"
+        placeholder="Template name"
+        autoFocus
+      />
+      <textarea
+        value={categoriesText}
+        onChange={(e) => setCategoriesText(e.target.value)}
+        className="input text-sm"
+        rows={5}
+        placeholder="One category per line"
+        aria-label="Categories"
+      />
+      <div className="flex justify-end space-x-2">
+        <button onClick={resetForm} className="btn btn-secondary">
+          Cancel
+        </button>
+        <button onClick={handleSaveTemplate} className="btn btn-primary">
+          Save Template
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {templates.length === 0 && editingId === null && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No templates. New projects start without categories.
+        </p>
+      )}
+
+      {templates.map((template) =>
+        editingId === template.id ? (
+          <React.Fragment key={template.id}>{editor}</React.Fragment>
+        ) : (
+          <div
+            key={template.id}
+            className="flex items-start justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {template.name}
+                {settings.defaultCategoryTemplateId === template.id && (
+                  <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">
+                    Default
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {template.categories.join(", ")}
+              </p>
+            </div>
+            <div className="flex items-center space-x-1 ml-2">
+              {settings.defaultCategoryTemplateId !== template.id && (
+                <button
+                  onClick={() => handleSetDefault(template.id)}
+                  className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                  aria-label={`Use ${template.name} for new projects`}
+                  title="Use for new projects"
+                >
+                  <Star size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => openEditor(template)}
+                className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                aria-label={`Edit template ${template.name}`}
+              >
+                <Edit size={16} />
+              </button>
+              <button
+                onClick={() => handleDeleteTemplate(template.id)}
+                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                aria-label={`Delete template ${template.name}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        )
+      )}
+
+      {editingId === "new" ? (
+        editor
+      ) : (
+        <button
+          onClick={() => openEditor()}
+          className="btn btn-secondary flex items-center space-x-2"
+          disabled={editingId !== null}
+        >
+          <Plus size={16} />
+          <span>New Template</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CategoryTemplateManager;
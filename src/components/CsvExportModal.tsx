@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import Modal from "./Modal";
+import { useProjectStore } from "../stores/projectStore";
+import { sessionService } from "../services/database";
+import { downloadFile } from "../utils/download";
+import { getDayBounds, toDayKey } from "../utils/rollups";
+import {
+  AGGREGATE_COLUMNS,
+  CSV_COLUMN_OPTIONS,
+  buildSessionCsv,
+  type CsvColumn,
+  type CsvExportOptions,
+} from "../utils/sessionExport";
+
+interface CsvExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId?: string; // preselected project filter
+}
+
+const DEFAULT_COLUMNS: CsvColumn[] = CSV_COLUMN_OPTIONS.map(
+  (option) => option.value
+);
+
+// Download sessions as a spreadsheet, one row per session or totalled per
+// day or category
+const CsvExportModal: React.FC<CsvExportModalProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+}) => {
+  const { projects } = useProjectStore();
+
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [selectedProjectId, setSelectedProjectId] = useState("");
+  const [includeBreaks, setIncludeBreaks] = useState(false);
+  const [columns, setColumns] = useState<CsvColumn[]>(DEFAULT_COLUMNS);
+  const [durationUnit, setDurationUnit] =
+    useState<CsvExportOptions["durationUnit"]>("minutes");
+  const [groupBy, setGroupBy] =
+    useState<CsvExportOptions["groupBy"]>("session");
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Default to the last 30 days each time it opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const today = new Date();
+    setFrom(
+      toDayKey(
+        new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29)
+      )
+    );
+    setTo(toDayKey(today));
+    setSelectedProjectId(projectId || "");
+  }, [isOpen, projectId]);
+
+  const isAggregated = groupBy !== "session";
+
+  const handleToggleColumn = (column: CsvColumn) => {
+    setColumns((current) =>
+      current.includes(column)
+        ? current.filter((c) => c !== column)
+        : // Keep the columns in their listed order
+          DEFAULT_COLUMNS.filter((c) => c === column || current.includes(c))
+    );
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!from || !to || from > to) {
+      toast.error("Please pick a start date on or before the end date");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const [startDate] = getDayBounds(from);
+      const [, endDate] = getDayBounds(to);
+      const sessions = (
+        await sessionService.getByDateRange(startDate, endDate)
+      ).filter(
+        (session) =>
+          new Date(session.startTime) < endDate &&
+          (!selectedProjectId || session.projectId === selectedProjectId) &&
+          (includeBreaks ||
+            session.type === "work" ||
+            session.type === "stopwatch")
+      );
+
+      if (sessions.length === 0) {
+        toast.error("No sessions in that range");
+        return;
+      }
+
+      downloadFile(
+        buildSessionCsv(sessions, projects, { columns, durationUnit, groupBy }),
+        `sinkyourtime-sessions-${from}-to-${to}.csv`,
+        "text/csv"
+      );
+      toast.success(`Exported ${sessions.length} sessions`);
+      onClose();
+    } catch (error) {
+      console.error("Error exporting sessions:", error);
+      toast.error("Failed to export sessions");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export Sessions to CSV"
+      className="max-w-md max-h-[90vh] overflow-y-auto"
+    >
+      <form onSubmit={handleExport} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              From
+            </label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="input"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              To
+            </label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="input"
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Project
+          </label>
+          <select
+            value={selectedProjectId}
+            onChange={(e) => setSelectedProjectId(e.target.value)}
+            className="input"
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={includeBreaks}
+            onChange={(e) => setIncludeBreaks(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Include breaks</span>
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Rows
+            </label>
+            <select
+              value={groupBy}
+              onChange={(e) =>
+                setGroupBy(e.target.value as CsvExportOptions["groupBy"])
+              }
+              className="input"
+            >
+              <option value="session">One per session</option>
+              <option value="day">Totals per day</option>
+              <option value="category">Totals per category</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Duration in
+            </label>
+            <select
+              value={durationUnit}
+              onChange={(e) =>
+                setDurationUnit(
+                  e.target.value as CsvExportOptions["durationUnit"]
+                )
+              }
+              className="input"
+            >
+              <option value="minutes">Minutes</option>
+              <option value="hours">Decimal hours</option>
+            </select>
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Columns
+          </legend>
+          <div className="grid grid-cols-2 gap-1">
+            {CSV_COLUMN_OPTIONS.map((option) => {
+              const disabled =
+                isAggregated && !AGGREGATE_COLUMNS.includes(option.value);
+              return (
+                <label
+                  key={option.value}
+                  className={`flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 ${
+                    disabled ? "opacity-50" : ""
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(option.value)}
+                    onChange={() => handleToggleColumn(option.value)}
+                    disabled={disabled}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{option.label}</span>
+                </label>
+              );
+            })}
+          </div>
+          {isAggregated && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Totals always include the{" "}
+              {groupBy === "day" ? "date" : "project and category"} and a
+              session count.
+            </p>
+          )}
+        </fieldset>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button type="button" onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isExporting || (!isAggregated && columns.length === 0)}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {isExporting ? "Exporting..." : "Export CSV"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default CsvExportModal;
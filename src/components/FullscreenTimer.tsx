@@ -1,21 +1,36 @@
 import React, { useEffect, useRef } from "react";
 import { createPortal } from "react-dom";
-import { Play, Pause, RotateCcw, X, Save } from "lucide-react";
+import {
+  Play,
+  Pause,
+  RotateCcw,
+  X,
+  Save,
+  CheckCircle,
+  Hand,
+} from "lucide-react";
 import { gsap } from "gsap";
 import { fadeIn, buttonPress } from "../utils/animations";
+import type { Task } from "../types";
 
 interface FullscreenTimerProps {
   isOpen: boolean;
   onClose: () => void;
   timeLeft: number;
+  isOvertime?: boolean;
+  isStopwatch?: boolean; // counts up from zero instead of down
+  overtime?: number; // seconds past the planned duration
   isRunning: boolean;
   currentProject?: any;
   currentCategory?: any;
+  currentTask?: Task;
   sessionStartTime?: Date;
   onStart: () => void;
   onPause: () => void;
   onReset: () => void;
   onSaveSession?: () => Promise<void>;
+  onFinish?: () => void;
+  onLogInterruption?: () => void; // only passed while interruptions can be logged
   onDurationEdit: () => void;
   formatTime: (seconds: number) => string;
   getModeLabel: () => string;
@@ -25,14 +40,20 @@ const FullscreenTimer: React.FC<FullscreenTimerProps> = ({
   isOpen,
   onClose,
   timeLeft,
+  isOvertime = false,
+  isStopwatch = false,
+  overtime = 0,
   isRunning,
   currentProject,
   currentCategory,
+  currentTask,
   sessionStartTime,
   onStart,
   onPause,
   onReset,
   onSaveSession,
+  onFinish,
+  onLogInterruption,
   onDurationEdit,
   formatTime,
   getModeLabel,
@@ -140,6 +161,14 @@ const FullscreenTimer: React.FC<FullscreenTimerProps> = ({
                 </span>
               </>
             )}
+            {currentTask && (
+              <>
+                <div className="w-1 h-1 bg-white/40 rounded-full"></div>
+                <span className="text-sm text-white/70">
+                  {currentTask.title}
+                </span>
+              </>
+            )}
           </div>
         )}
 
@@ -160,10 +189,16 @@ const FullscreenTimer: React.FC<FullscreenTimerProps> = ({
             <div className="text-center">
               <div
                 ref={timerDisplayRef}
-                className="text-7xl md:text-8xl lg:text-9xl font-extralight text-white font-mono cursor-pointer hover:opacity-90 transition-all duration-300 tracking-wider"
+                className={`text-7xl md:text-8xl lg:text-9xl font-extralight font-mono cursor-pointer hover:opacity-90 transition-all duration-300 tracking-wider ${
+                  isOvertime && !isStopwatch ? "text-amber-300" : "text-white"
+                }`}
                 onDoubleClick={onDurationEdit}
               >
-                {formatTime(timeLeft)}
+                {isStopwatch
+                  ? formatTime(overtime)
+                  : isOvertime
+                  ? `+${formatTime(overtime)}`
+                  : formatTime(timeLeft)}
               </div>
             </div>
           </div>
@@ -212,6 +247,34 @@ const FullscreenTimer: React.FC<FullscreenTimerProps> = ({
               />
             </button>
 
+            {/* Finish Overtime Button */}
+            {isOvertime && sessionStartTime && onFinish && (
+              <button
+                onClick={onFinish}
+                aria-label="Finish session"
+                className="group bg-amber-500/90 hover:bg-amber-500 text-white rounded-full p-6 transition-all duration-300 shadow-2xl hover:shadow-amber-500/25 hover:scale-105"
+              >
+                <CheckCircle
+                  size={28}
+                  className="group-hover:scale-110 transition-transform duration-300"
+                />
+              </button>
+            )}
+
+            {/* Log Interruption Button */}
+            {onLogInterruption && (
+              <button
+                onClick={onLogInterruption}
+                aria-label="Log interruption"
+                className="group bg-white/10 hover:bg-white/20 text-white/80 hover:text-white rounded-full p-6 transition-all duration-300 backdrop-blur-sm border border-white/20 hover:scale-105"
+              >
+                <Hand
+                  size={28}
+                  className="group-hover:scale-110 transition-transform duration-300"
+                />
+              </button>
+            )}
+
             {/* Save Session Button */}
             {sessionStartTime && onSaveSession && (
               <button
@@ -241,6 +304,14 @@ const FullscreenTimer: React.FC<FullscreenTimerProps> = ({
                 </kbd>
                 <span>reset</span>
               </div>
+              {onLogInterruption && (
+                <div className="flex items-center space-x-2">
+                  <kbd className="px-3 py-1 bg-white/10 backdrop-blur-sm rounded-lg text-xs border border-white/20">
+                    I
+                  </kbd>
+                  <span>interruption</span>
+                </div>
+              )}
               {sessionStartTime && onSaveSession && (
                 <div className="flex items-center space-x-2">
                   <kbd className="px-3 py-1 bg-white/10 backdrop-blur-sm rounded-lg text-xs border border-white/20">
@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { CheckCircle, ShieldCheck } from "lucide-react";
+import toast from "react-hot-toast";
+import { useProjectStore } from "../stores/projectStore";
+import { useTaskStore } from "../stores/taskStore";
+import { useInterruptionStore } from "../stores/interruptionStore";
+import {
+  integrityService,
+  type IntegrityIssue,
+  type IntegrityRepair,
+  type IntegrityReport,
+} from "../services/integrity";
+
+const REPAIR_LABELS: Record<IntegrityRepair, string> = {
+  reassign: "Move",
+  delete: "Delete",
+  resync: "Resync",
+};
+
+// Scan the database for broken references and bad values, and repair each
+// kind of problem in one go
+const IntegrityChecker: React.FC = () => {
+  const { projects, loadProjects } = useProjectStore();
+  const { loadTasks } = useTaskStore();
+  const { loadInterruptions } = useInterruptionStore();
+
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [repairingKind, setRepairingKind] = useState<string | null>(null);
+  // Project or category picked for each issue's reassign
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  const getTargetOptions = (issue: IntegrityIssue) =>
+    issue.reassignTo === "project"
+      ? projects.map((project) => ({ id: project.id, label: project.name }))
+      : projects.flatMap((project) =>
+          project.categories.map((category) => ({
+            id: category.id,
+            label: `${project.name} / ${category.name}`,
+          }))
+        );
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      setReport(await integrityService.scan());
+    } catch (error) {
+      console.error("Error scanning data:", error);
+      toast.error("Failed to check data");
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleRepair = async (
+    issue: IntegrityIssue,
+    repair: IntegrityRepair
+  ) => {
+    const targetId = targets[issue.kind] || getTargetOptions(issue)[0]?.id;
+    if (repair === "reassign" && !targetId) {
+      toast.error(`There is no ${issue.reassignTo} to move them to`);
+      return;
+    }
+    if (
+      repair === "delete" &&
+      !window.confirm(
+        `Permanently delete ${issue.count} item${
+          issue.count !== 1 ? "s" : ""
+        }? This can't be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setRepairingKind(issue.kind);
+    try {
+      await integrityService.repair(issue.kind, repair, targetId);
+      await Promise.all([loadProjects(), loadTasks(), loadInterruptions()]);
+      toast.success("Repaired");
+      setReport(await integrityService.scan());
+    } catch (error) {
+      console.error("Error repairing data:", error);
+      toast.error("Failed to repair data");
+    } finally {
+      setRepairingKind(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {report
+            ? `Last checked ${report.scannedAt.toLocaleTimeString()}`
+            : "Look for orphaned or inconsistent data"}
+        </p>
+        <button
+          onClick={handleScan}
+          disabled={isScanning}
+          className="btn btn-secondary flex items-center space-x-2"
+        >
+          <ShieldCheck size={16} />
+          <span>{isScanning ? "Checking..." : "Check Data"}</span>
+        </button>
+      </div>
+
+      {report && report.issues.length === 0 && (
+        <div className="flex items-center space-x-2 text-sm text-green-600 dark:text-green-400">
+          <CheckCircle size={16} />
+          <span>No problems found</span>
+        </div>
+      )}
+
+      {report?.issues.map((issue) => (
+        <div
+          key={issue.kind}
+          className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg space-y-2"
+        >
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            {issue.description} ({issue.count})
+          </p>
+          <ul className="text-xs text-gray-600 dark:text-gray-400 list-disc list-inside">
+            {issue.examples.map((example, index) => (
+              <li key={index}>{example}</li>
+            ))}
+            {issue.count > issue.examples.length && (
+              <li>and {issue.count - issue.examples.length} more</li>
+            )}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {issue.repairs.includes("reassign") && (
+              <select
+                value={targets[issue.kind] || ""}
+                onChange={(e) =>
+                  setTargets({ ...targets, [issue.kind]: e.target.value })
+                }
+                className="input py-1 text-sm w-auto"
+                aria-label={`Move to ${issue.reassignTo}`}
+              >
+                {getTargetOptions(issue).map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            {issue.repairs.map((repair) => (
+              <button
+                key={repair}
+                onClick={() => handleRepair(issue, repair)}
+                disabled={repairingKind !== null}
+                className={`btn text-sm py-1 ${
+                  repair === "delete" ? "btn-danger" : "btn-secondary"
+                }`}
+              >
+                {repairingKind === issue.kind
+                  ? "Repairing..."
+                  : REPAIR_LABELS[repair]}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default IntegrityChecker;
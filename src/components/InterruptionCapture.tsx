@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import Modal from "./Modal";
+import { useTimerStore } from "../stores/timerStore";
+import { useInterruptionStore } from "../stores/interruptionStore";
+import type { Interruption } from "../types";
+
+interface InterruptionCaptureProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const KIND_OPTIONS: Array<{
+  kind: Interruption["kind"];
+  label: string;
+  hint: string;
+}> = [
+  {
+    kind: "internal",
+    label: "Internal",
+    hint: "A thought or urge of your own",
+  },
+  { kind: "external", label: "External", hint: "Someone or something else" },
+];
+
+// Quick log of an interruption against the running work session; the note is
+// kept in the inbox to deal with after the session
+const InterruptionCapture: React.FC<InterruptionCaptureProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { sessionId, currentProject, currentCategory } = useTimerStore();
+  const { logInterruption } = useInterruptionStore();
+
+  const [kind, setKind] = useState<Interruption["kind"]>("internal");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setKind("internal");
+      setNote("");
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sessionId || !currentProject || !currentCategory) {
+      toast.error("Interruptions can only be logged during a work session");
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await logInterruption({
+        sessionId,
+        projectId: currentProject.id,
+        categoryId: currentCategory.id,
+        kind,
+        note: note.trim() || undefined,
+      });
+      toast.success("Interruption logged", { icon: "✋" });
+      onClose();
+    } catch (error) {
+      console.error("Error logging interruption:", error);
+      toast.error("Failed to log interruption");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Letting go of the focused field would hand these keys to the timer
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Log Interruption">
+      <form onSubmit={handleSubmit} onKeyDown={handleKeyDown}>
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          {KIND_OPTIONS.map((option) => (
+            <button
+              key={option.kind}
+              type="button"
+              onClick={() => setKind(option.kind)}
+              aria-pressed={kind === option.kind}
+              className={`p-3 rounded-lg border text-left transition-colors ${
+                kind === option.kind
+                  ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                  : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {option.label}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {option.hint}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="input mb-6"
+          placeholder="Jot it down to deal with later (optional)"
+          aria-label="Interruption note"
+          autoFocus
+        />
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Log"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default InterruptionCapture;
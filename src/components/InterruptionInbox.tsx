@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { Check, RotateCcw, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import Modal from "./Modal";
+import { useInterruptionStore } from "../stores/interruptionStore";
+import { useProjectStore } from "../stores/projectStore";
+import type { Interruption } from "../types";
+
+interface InterruptionInboxProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Interruptions logged during work sessions, waiting to be dealt with
+const InterruptionInbox: React.FC<InterruptionInboxProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { interruptions, setReviewed, markAllReviewed, deleteInterruption } =
+    useInterruptionStore();
+  const { projects } = useProjectStore();
+  const [showReviewed, setShowReviewed] = useState(false);
+
+  const unreviewedCount = interruptions.filter((i) => !i.reviewed).length;
+  const visibleInterruptions = showReviewed
+    ? interruptions
+    : interruptions.filter((i) => !i.reviewed);
+
+  const describeSource = (interruption: Interruption) => {
+    const project = projects.find((p) => p.id === interruption.projectId);
+    const category = project?.categories.find(
+      (c) => c.id === interruption.categoryId
+    );
+    return [project?.name, category?.name].filter(Boolean).join(" · ");
+  };
+
+  const handleToggleReviewed = async (interruption: Interruption) => {
+    try {
+      await setReviewed(interruption.id, !interruption.reviewed);
+    } catch (error) {
+      console.error("Error updating interruption:", error);
+      toast.error("Failed to update interruption");
+    }
+  };
+
+  const handleMarkAllReviewed = async () => {
+    try {
+      await markAllReviewed();
+      toast.success("Inbox cleared");
+    } catch (error) {
+      console.error("Error updating interruptions:", error);
+      toast.error("Failed to update interruptions");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteInterruption(id);
+    } catch (error) {
+      console.error("Error deleting interruption:", error);
+      toast.error("Failed to delete interruption");
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Interruption Inbox"
+      className="max-w-md max-h-[90vh] overflow-y-auto"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={showReviewed}
+            onChange={(e) => setShowReviewed(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Show reviewed</span>
+        </label>
+        {unreviewedCount > 0 && (
+          <button
+            onClick={handleMarkAllReviewed}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Mark all reviewed
+          </button>
+        )}
+      </div>
+
+      {visibleInterruptions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+          Nothing to review. Press I during a work session to log an
+          interruption.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {visibleInterruptions.map((interruption) => (
+            <div
+              key={interruption.id}
+              className={`flex items-start justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-700 ${
+                interruption.reviewed ? "opacity-60" : ""
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2 mb-1">
+                  <span
+                    className={`px-2 py-0.5 rounded text-xs font-medium ${
+                      interruption.kind === "internal"
+                        ? "bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300"
+                        : "bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300"
+                    }`}
+                  >
+                    {interruption.kind === "internal" ? "Internal" : "External"}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(interruption.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-900 dark:text-gray-100 break-words">
+                  {interruption.note || "No note"}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {describeSource(interruption)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1 ml-2">
+                <button
+                  onClick={() => handleToggleReviewed(interruption)}
+                  className="p-1 text-gray-400 hover:text-green-600 dark:hover:text-green-400"
+                  aria-label={
+                    interruption.reviewed
+                      ? "Move back to inbox"
+                      : "Mark as reviewed"
+                  }
+                >
+                  {interruption.reviewed ? (
+                    <RotateCcw size={16} />
+                  ) : (
+                    <Check size={16} />
+                  )}
+                </button>
+                <button
+                  onClick={() => handleDelete(interruption.id)}
+                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label="Delete interruption"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default InterruptionInbox;
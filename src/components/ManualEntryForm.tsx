@@ -0,0 +1,328 @@
+import React, { useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import Modal from "./Modal";
+import TagPicker from "./TagPicker";
+import { useProjectStore } from "../stores/projectStore";
+import { useTaskStore } from "../stores/taskStore";
+import { sessionService } from "../services/database";
+import { validateSessionData } from "../utils/performance";
+import {
+  SESSION_TYPE_OPTIONS,
+  getSessionEnd,
+  toLocalInputValue,
+  validateSessionRange,
+} from "../utils/sessionEditing";
+import type { Project, TimerSession } from "../types";
+
+interface ManualEntryFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId?: string; // preselected project
+}
+
+// The preselected project if it takes new time, else the first active one
+const getDefaultProject = (projects: Project[], projectId?: string) =>
+  projects.find((p) => p.id === projectId && p.status === "active") ||
+  projects.find((p) => p.status === "active");
+
+// Record a session that happened away from the timer
+const ManualEntryForm: React.FC<ManualEntryFormProps> = ({
+  isOpen,
+  onClose,
+  projectId,
+}) => {
+  const { projects } = useProjectStore();
+  const { tasks } = useTaskStore();
+
+  const [selectedProjectId, setSelectedProjectId] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [taskId, setTaskId] = useState("");
+  const [type, setType] = useState<TimerSession["type"]>("work");
+  const [start, setStart] = useState("");
+  const [useDuration, setUseDuration] = useState(true);
+  const [end, setEnd] = useState("");
+  const [duration, setDuration] = useState(25);
+  const [completed, setCompleted] = useState(true);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const wasOpenRef = useRef(false);
+
+  // Start from a fresh form each time it opens. Project updates while it is
+  // open (e.g. from another tab) leave what has been typed alone.
+  useEffect(() => {
+    const justOpened = isOpen && !wasOpenRef.current;
+    wasOpenRef.current = isOpen;
+    if (!justOpened) return;
+    const now = new Date();
+    const project = getDefaultProject(projects, projectId);
+    setSelectedProjectId(project?.id || "");
+    setCategoryId(project?.categories[0]?.id || "");
+    setTaskId("");
+    setType("work");
+    setStart(toLocalInputValue(new Date(now.getTime() - 25 * 60 * 1000)));
+    setUseDuration(true);
+    setEnd(toLocalInputValue(now));
+    setDuration(25);
+    setCompleted(true);
+    setTagIds([]);
+  }, [isOpen, projectId, projects]);
+
+  // Projects still loading when the form opened fill in once they arrive
+  useEffect(() => {
+    if (!isOpen || selectedProjectId) return;
+    const project = getDefaultProject(projects, projectId);
+    if (!project) return;
+    setSelectedProjectId(project.id);
+    setCategoryId(project.categories[0]?.id || "");
+  }, [isOpen, projectId, projects, selectedProjectId]);
+
+  // Archived projects take no new time
+  const activeProjects = projects.filter((p) => p.status === "active");
+  const selectedProject = projects.find((p) => p.id === selectedProjectId);
+  const categoryTasks = tasks.filter(
+    (task) => task.categoryId === categoryId && !task.done
+  );
+
+  const handleProjectChange = (id: string) => {
+    setSelectedProjectId(id);
+    setCategoryId(projects.find((p) => p.id === id)?.categories[0]?.id || "");
+    setTaskId("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const startTime = new Date(start);
+    const endTime = useDuration
+      ? new Date(startTime.getTime() + duration * 60 * 1000)
+      : new Date(end);
+
+    const rangeError = validateSessionRange(startTime, endTime);
+    if (rangeError) {
+      toast.error(rangeError);
+      return;
+    }
+
+    const actualDuration = endTime.getTime() - startTime.getTime();
+    const isStopwatch = type === "stopwatch";
+    const session: Omit<TimerSession, "id"> = {
+      projectId: selectedProjectId,
+      categoryId,
+      taskId: taskId || undefined,
+      type,
+      plannedDuration: isStopwatch ? 0 : actualDuration,
+      actualDuration,
+      startTime,
+      endTime,
+      completed: isStopwatch || completed,
+      pauses: [],
+      openEnded: isStopwatch || undefined,
+      source: "manual",
+      tagIds: tagIds.length > 0 ? tagIds : undefined,
+    };
+
+    const validation = validateSessionData(session);
+    if (!validation.isValid) {
+      toast.error(`Invalid entry: ${validation.errors.join(", ")}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const overlap = await sessionService.findOverlapping(startTime, endTime);
+      if (overlap) {
+        toast.error(
+          `Overlaps a session from ${new Date(
+            overlap.startTime
+          ).toLocaleString()} to ${getSessionEnd(overlap).toLocaleTimeString()}`
+        );
+        return;
+      }
+
+      await sessionService.create(session);
+      toast.success("Time entry added!");
+      onClose();
+    } catch (error) {
+      console.error("Error saving manual entry:", error);
+      toast.error("Failed to save time entry");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Add Time Entry"
+      className="max-w-md max-h-[90vh] overflow-y-auto"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Project
+            </label>
+            <select
+              value={selectedProjectId}
+              onChange={(e) => handleProjectChange(e.target.value)}
+              className="input"
+              required
+            >
+              {activeProjects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Category
+            </label>
+            <select
+              value={categoryId}
+              onChange={(e) => {
+                setCategoryId(e.target.value);
+                setTaskId("");
+              }}
+              className="input"
+              required
+            >
+              {selectedProject?.categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Type
+            </label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as TimerSession["type"])}
+              className="input"
+            >
+              {SESSION_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Task
+            </label>
+            <select
+              value={taskId}
+              onChange={(e) => setTaskId(e.target.value)}
+              className="input"
+            >
+              <option value="">No task</option>
+              {categoryTasks.map((task) => (
+                <option key={task.id} value={task.id}>
+                  {task.title}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Start
+          </label>
+          <input
+            type="datetime-local"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            className="input"
+            required
+          />
+        </div>
+
+        <div>
+          <div className="flex items-center space-x-4 mb-1">
+            <label className="flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                checked={useDuration}
+                onChange={() => setUseDuration(true)}
+              />
+              <span>Duration</span>
+            </label>
+            <label className="flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                checked={!useDuration}
+                onChange={() => setUseDuration(false)}
+              />
+              <span>End time</span>
+            </label>
+          </div>
+          {useDuration ? (
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min="1"
+                max="1440"
+                value={duration}
+                onChange={(e) => setDuration(parseInt(e.target.value) || 0)}
+                className="input"
+                aria-label="Duration in minutes"
+                required
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                min
+              </span>
+            </div>
+          ) : (
+            <input
+              type="datetime-local"
+              value={end}
+              onChange={(e) => setEnd(e.target.value)}
+              className="input"
+              aria-label="End"
+              required
+            />
+          )}
+        </div>
+
+        {type !== "stopwatch" && (
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={completed}
+              onChange={(e) => setCompleted(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Completed as planned</span>
+          </label>
+        )}
+
+        <TagPicker selectedIds={tagIds} onChange={setTagIds} />
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button type="button" onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !selectedProjectId || !categoryId}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Add Entry"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ManualEntryForm;
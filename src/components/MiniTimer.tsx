@@ -0,0 +1,107 @@
+import React from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Play, Pause, Target, Coffee, Zap, Watch } from "lucide-react";
+import { useTimerStore } from "../stores/timerStore";
+import { formatClock } from "../utils/performance";
+
+const MODE_LABELS = {
+  work: "Work",
+  short_break: "Short Break",
+  long_break: "Long Break",
+  stopwatch: "Stopwatch",
+};
+
+const MODE_ICONS = {
+  work: Target,
+  short_break: Coffee,
+  long_break: Zap,
+  stopwatch: Watch,
+};
+
+// Compact running-timer widget shown in the navigation bar on every route
+const MiniTimer: React.FC = () => {
+  const location = useLocation();
+  const {
+    isRunning,
+    currentMode,
+    timeLeft,
+    isOvertime,
+    overtime,
+    currentProject,
+    sessionStartTime,
+    startTimer,
+    pauseTimer,
+  } = useTimerStore();
+
+  // Nothing to show until a session has been started
+  if (!sessionStartTime && !isRunning) return null;
+
+  // The full timer is already on screen
+  const timerPath = currentProject ? `/project/${currentProject.id}` : null;
+  if (timerPath && location.pathname === timerPath) return null;
+
+  const ModeIcon = MODE_ICONS[currentMode];
+
+  const handleToggleClick = () => {
+    if (isRunning) {
+      pauseTimer();
+    } else {
+      startTimer();
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-3 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-700 border border-gray-200 dark:border-gray-600">
+      <Link
+        to={timerPath || "/"}
+        className="flex items-center space-x-2 min-w-0"
+        title="Open timer"
+      >
+        {currentProject && (
+          <div
+            className="w-3 h-3 rounded-full flex-shrink-0"
+            style={{ backgroundColor: currentProject.color }}
+          />
+        )}
+        <div className="min-w-0 hidden sm:block">
+          <p className="text-xs font-medium text-gray-900 dark:text-gray-100 truncate max-w-32">
+            {currentProject?.name || "No project"}
+          </p>
+          <p className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400">
+            <ModeIcon size={10} />
+            <span>{MODE_LABELS[currentMode]}</span>
+          </p>
+        </div>
+        <span
+          className={`font-mono text-sm font-semibold ${
+            isOvertime && currentMode !== "stopwatch"
+              ? "text-amber-600 dark:text-amber-400"
+              : isRunning
+              ? "text-gray-900 dark:text-gray-100"
+              : "text-gray-500 dark:text-gray-400"
+          }`}
+        >
+          {currentMode === "stopwatch"
+            ? formatClock(overtime)
+            : isOvertime
+            ? `+${formatClock(overtime)}`
+            : formatClock(timeLeft)}
+        </span>
+      </Link>
+      <button
+        onClick={handleToggleClick}
+        className={`p-1.5 rounded-full text-white transition-colors ${
+          isRunning
+            ? "bg-red-600 hover:bg-red-700"
+            : "bg-green-600 hover:bg-green-700"
+        }`}
+        aria-label={isRunning ? "Pause timer" : "Resume timer"}
+        title={isRunning ? "Pause timer" : "Resume timer"}
+      >
+        {isRunning ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+    </div>
+  );
+};
+
+export default MiniTimer;
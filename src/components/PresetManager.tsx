@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { useSettingsStore } from "../stores/settingsStore";
+import { SettingsValidationError } from "../services/settingsRepository";
+import { SETTINGS_PRESET_ID } from "../utils/presets";
+import { STEP_DURATION_RANGES } from "../utils/settingsSchema";
+import type { CycleStep } from "../types";
+
+const MODE_LABELS: Record<CycleStep["mode"], string> = {
+  work: "Work",
+  short_break: "Short Break",
+  long_break: "Long Break",
+};
+
+const NEW_PRESET_STEPS: CycleStep[] = [
+  { mode: "work", duration: 50 },
+  { mode: "short_break", duration: 10 },
+];
+
+const describeSteps = (steps: CycleStep[]) =>
+  steps.map((step) => `${MODE_LABELS[step.mode]} ${step.duration}`).join(" → ");
+
+// Create and remove custom presets: named cycles of work and break intervals
+const PresetManager: React.FC = () => {
+  const { settings, updateSettings } = useSettingsStore();
+  const customPresets = settings.presets || [];
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [steps, setSteps] = useState<CycleStep[]>(NEW_PRESET_STEPS);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setName("");
+    setSteps(NEW_PRESET_STEPS);
+  };
+
+  const handleStepChange = (index: number, updates: Partial<CycleStep>) => {
+    setSteps((prev) =>
+      prev.map((step, i) => (i === index ? { ...step, ...updates } : step))
+    );
+  };
+
+  const handleAddStep = () => {
+    setSteps((prev) => [...prev, { mode: "work", duration: 25 }]);
+  };
+
+  const handleRemoveStep = (index: number) => {
+    setSteps((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSavePreset = async () => {
+    if (!name.trim()) {
+      toast.error("Please give the preset a name");
+      return;
+    }
+
+    try {
+      await updateSettings({
+        presets: [
+          ...customPresets,
+          { id: crypto.randomUUID(), name: name.trim(), steps },
+        ],
+      });
+      toast.success("Preset created!");
+      resetForm();
+    } catch (error) {
+      console.error("Error creating preset:", error);
+      toast.error(
+        error instanceof SettingsValidationError
+          ? error.problems.join(". ")
+          : "Failed to create preset"
+      );
+    }
+  };
+
+  const handleDeletePreset = async (presetId: string) => {
+    try {
+      await updateSettings({
+        presets: customPresets.filter((preset) => preset.id !== presetId),
+        // Fall back to the Settings durations if the active preset goes away
+        ...(settings.activePresetId === presetId && {
+          activePresetId: SETTINGS_PRESET_ID,
+        }),
+      });
+      toast.success("Preset deleted");
+    } catch (error) {
+      console.error("Error deleting preset:", error);
+      toast.error("Failed to delete preset");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {customPresets.length === 0 && !isAdding && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No custom presets yet. Built-in presets can be picked on the timer.
+        </p>
+      )}
+
+      {customPresets.map((preset) => (
+        <div
+          key={preset.id}
+          className="flex items-start justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+        >
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              {preset.name}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {describeSteps(preset.steps)}
+            </p>
+          </div>
+          <button
+            onClick={() => handleDeletePreset(preset.id)}
+            className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+            aria-label={`Delete preset ${preset.name}`}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+
+      {isAdding ? (
+        <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="input"
+            placeholder="Preset name"
+            autoFocus
+          />
+
+          {steps.map((step, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <span className="text-xs text-gray-500 dark:text-gray-400 w-4">
+                {index + 1}
+              </span>
+              <select
+                value={step.mode}
+                onChange={(e) =>
+                  handleStepChange(index, {
+                    mode: e.target.value as CycleStep["mode"],
+                  })
+                }
+                className="input py-1 text-sm"
+                aria-label={`Step ${index + 1} type`}
+              >
+                <option value="work">Work</option>
+                <option value="short_break">Short Break</option>
+                <option value="long_break">Long Break</option>
+              </select>
+              <input
+                type="number"
+                min={STEP_DURATION_RANGES[step.mode].min}
+                max={STEP_DURATION_RANGES[step.mode].max}
+                value={step.duration}
+                onChange={(e) =>
+                  handleStepChange(index, {
+                    duration: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="input py-1 text-sm w-20"
+                aria-label={`Step ${index + 1} minutes`}
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                min
+              </span>
+              <button
+                onClick={() => handleRemoveStep(index)}
+                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                aria-label={`Remove step ${index + 1}`}
+                disabled={steps.length === 1}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={handleAddStep}
+              className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <Plus size={14} />
+              <span>Add step</span>
+            </button>
+            <div className="flex space-x-2">
+              <button onClick={resetForm} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button onClick={handleSavePreset} className="btn btn-primary">
+                Save Preset
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="btn btn-secondary flex items-center space-x-2"
+        >
+          <Plus size={16} />
+          <span>New Preset</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PresetManager;
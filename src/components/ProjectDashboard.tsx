@@ -8,9 +8,15 @@ import {
   TrendingUp,
   Trash2,
   AlertTriangle,
+  Archive,
+  ArchiveRestore,
+  X,
+  Copy,
+  BookmarkPlus,
 } from "lucide-react";
 import { useProjectStore } from "../stores/projectStore";
-import { sessionService } from "../services/database";
+import { useSettingsStore } from "../stores/settingsStore";
+import { rollupService } from "../services/database";
 import {
   staggerFadeIn,
   scaleIn,
@@ -20,9 +26,30 @@ import {
 } from "../utils/animations";
 import Modal from "./Modal";
 import toast from "react-hot-toast";
+import { showUndoToast } from "../utils/undoToast";
+import { getCategoryTemplates } from "../utils/categoryTemplates";
+import {
+  fillNamePattern,
+  templateFromProject,
+  toNamePattern,
+} from "../utils/projectTemplates";
+import { getProjectErrorMessage } from "../utils/timerSettings";
+import type { Project } from "../types";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 
 const ProjectDashboard: React.FC = () => {
-  const { projects, createProject, deleteProject } = useProjectStore();
+  const {
+    projects,
+    createProject,
+    updateProject,
+    duplicateProject,
+    deleteProject,
+    restoreProject,
+  } = useProjectStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const categoryTemplates = getCategoryTemplates(settings);
+  const projectTemplates = settings.projectTemplates ?? [];
   const [projectStats, setProjectStats] = useState<
     Record<
       string,
@@ -41,11 +68,21 @@ const ProjectDashboard: React.FC = () => {
     stats: any;
   } | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [hideArchiveSuggestions, setHideArchiveSuggestions] = useState(false);
   const [newProject, setNewProject] = useState({
     name: "",
     description: "",
     color: "#3b82f6",
   });
+  const [templateId, setTemplateId] = useState("");
+  const [projectTemplateId, setProjectTemplateId] = useState("");
+  const [projectToTemplate, setProjectToTemplate] = useState<Project | null>(
+    null
+  );
+  const [templateForm, setTemplateForm] = useState({
+    name: "",
+    namePattern: "",
+  });
 
   // GSAP refs
   const headerRef = useRef<HTMLDivElement>(null);
@@ -55,6 +92,19 @@ const ProjectDashboard: React.FC = () => {
 
   // Define activeProjects early to avoid reference errors
   const activeProjects = projects.filter((p) => p.status === "active");
+  const archivedProjects = projects.filter((p) => p.status === "archived");
+
+  // Active projects untouched for a while are suggested for archiving. A
+  // project whose stats haven't loaded yet is never suggested.
+  const inactiveProjects = activeProjects.filter((project) => {
+    const stats = projectStats[project.id];
+    if (!stats) return false;
+    const lastActivity = stats.lastActivity ?? new Date(project.createdAt);
+    return (
+      Date.now() - lastActivity.getTime() >
+      settings.archiveSuggestionWeeks * WEEK_MS
+    );
+  });
 
   useEffect(() => {
     loadProjectStats();
@@ -89,7 +139,8 @@ const ProjectDashboard: React.FC = () => {
 
   const loadProjectStats = async () => {
     try {
-      const allSessions = await sessionService.getAll();
+      // Read from the daily rollups rather than every session
+      const rollups = await rollupService.getAll();
       const stats: Record<
         string,
         {
@@ -100,27 +151,32 @@ const ProjectDashboard: React.FC = () => {
       > = {};
 
       projects.forEach((project) => {
-        const projectSessions = allSessions.filter(
-          (s) => s.projectId === project.id
+        const projectRollups = rollups.filter(
+          (r) => r.projectId === project.id
         );
         const totalTime =
-          projectSessions.reduce(
-            (sum, session) => sum + session.actualDuration,
+          projectRollups.reduce(
+            (sum, rollup) => sum + rollup.totalDuration,
             0
           ) /
           (1000 * 60); // Convert to minutes
         const lastActivity =
-          projectSessions.length > 0
+          projectRollups.length > 0
             ? new Date(
                 Math.max(
-                  ...projectSessions.map((s) => new Date(s.startTime).getTime())
+                  ...projectRollups.map((r) =>
+                    new Date(r.lastStartTime).getTime()
+                  )
                 )
               )
             : undefined;
 
         stats[project.id] = {
           totalTime: Math.round(totalTime),
-          sessions: projectSessions.length,
+          sessions: projectRollups.reduce(
+            (sum, rollup) => sum + rollup.sessionCount,
+            0
+          ),
           lastActivity,
         };
       });
@@ -137,13 +193,22 @@ const ProjectDashboard: React.FC = () => {
   const handleCreateProject = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      await createProject({
-        name: newProject.name.trim(),
-        description: newProject.description.trim(),
-        color: newProject.color,
-        status: "active",
-        categories: [],
-      });
+      // A project template brings its own categories and timer settings
+      const projectTemplate = projectTemplates.find(
+        (t) => t.id === projectTemplateId
+      );
+      const template = categoryTemplates.find((t) => t.id === templateId);
+      await createProject(
+        {
+          name: newProject.name.trim(),
+          description: newProject.description.trim(),
+          color: newProject.color,
+          status: "active",
+          categories: [],
+          settingsOverrides: projectTemplate?.settingsOverrides,
+        },
+        projectTemplate ? projectTemplate.categories : template?.categories
+      );
 
       // Animate the new project card in
       const newCard =
@@ -156,6 +221,7 @@ const ProjectDashboard: React.FC = () => {
       setShowCreateForm(false);
     } catch (error) {
       console.error("Error creating project:", error);
+      toast.error(getProjectErrorMessage(error, "Failed to create project"));
     }
   };
 
@@ -184,9 +250,10 @@ const ProjectDashboard: React.FC = () => {
         await fadeOut(projectCard);
       }
 
-      await deleteProject(projectToDelete.project.id);
-      toast.success(
-        `Project "${projectToDelete.project.name}" deleted successfully`
+      const { id, name } = projectToDelete.project;
+      await deleteProject(id);
+      showUndoToast(`Project "${name}" moved to trash`, () =>
+        restoreProject(id)
       );
       setShowDeleteModal(false);
       setProjectToDelete(null);
@@ -198,6 +265,95 @@ const ProjectDashboard: React.FC = () => {
     }
   };
 
+  const handleDuplicateProject = async (
+    e: React.MouseEvent,
+    project: Project
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      const copy = await duplicateProject(project.id);
+      if (copy) {
+        toast.success(`Created "${copy.name}"`);
+      }
+    } catch (error) {
+      console.error("Error duplicating project:", error);
+      toast.error("Failed to duplicate project");
+    }
+  };
+
+  const openSaveAsTemplate = (e: React.MouseEvent, project: Project) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setProjectToTemplate(project);
+    setTemplateForm({
+      name: project.name,
+      namePattern: toNamePattern(project.name),
+    });
+  };
+
+  const handleSaveAsTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!projectToTemplate) return;
+
+    try {
+      await updateSettings({
+        projectTemplates: [
+          ...projectTemplates,
+          templateFromProject(
+            projectToTemplate,
+            templateForm.name.trim(),
+            templateForm.namePattern.trim()
+          ),
+        ],
+      });
+      toast.success(`Template "${templateForm.name.trim()}" saved`);
+      setProjectToTemplate(null);
+    } catch (error) {
+      console.error("Error saving project template:", error);
+      toast.error("Failed to save template");
+    }
+  };
+
+  const handleProjectTemplateChange = (id: string) => {
+    setProjectTemplateId(id);
+    const template = projectTemplates.find((t) => t.id === id);
+    if (!template) return;
+    setNewProject({
+      name: fillNamePattern(
+        template.namePattern,
+        projects.map((p) => p.name)
+      ),
+      description: template.description ?? "",
+      color: template.color,
+    });
+  };
+
+  const handleArchiveProject = async (
+    e: React.MouseEvent,
+    project: Project
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await updateProject(project.id, { status: "archived" });
+      toast.success(`Project "${project.name}" archived`);
+    } catch (error) {
+      console.error("Error archiving project:", error);
+      toast.error(`Failed to archive "${project.name}"`);
+    }
+  };
+
+  const handleUnarchiveProject = async (project: Project) => {
+    try {
+      await updateProject(project.id, { status: "active" });
+      toast.success(`Project "${project.name}" is active again`);
+    } catch (error) {
+      console.error("Error unarchiving project:", error);
+      toast.error(`Failed to unarchive "${project.name}"`);
+    }
+  };
+
   const cancelDeleteProject = () => {
     setShowDeleteModal(false);
     setProjectToDelete(null);
@@ -205,6 +361,8 @@ const ProjectDashboard: React.FC = () => {
 
   // Enhanced modal animations
   const openCreateForm = () => {
+    setTemplateId(settings.defaultCategoryTemplateId);
+    setProjectTemplateId("");
     setShowCreateForm(true);
   };
 
@@ -377,6 +535,43 @@ const ProjectDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Archive Suggestions */}
+      {inactiveProjects.length > 0 && !hideArchiveSuggestions && (
+        <div className="mb-8 p-4 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="font-medium text-amber-800 dark:text-amber-300">
+                No activity for {settings.archiveSuggestionWeeks} week
+                {settings.archiveSuggestionWeeks !== 1 ? "s" : ""} or more
+              </p>
+              <p className="text-sm text-amber-700 dark:text-amber-400">
+                Archive these projects to tidy up. Their history stays in
+                analytics.
+              </p>
+            </div>
+            <button
+              onClick={() => setHideArchiveSuggestions(true)}
+              className="p-1 text-amber-600 hover:text-amber-800 dark:text-amber-400 dark:hover:text-amber-200"
+              aria-label="Dismiss archive suggestions"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-3">
+            {inactiveProjects.map((project) => (
+              <button
+                key={project.id}
+                onClick={(e) => handleArchiveProject(e, project)}
+                className="flex items-center space-x-2 px-3 py-1 rounded-full bg-white dark:bg-gray-800 border border-amber-200 dark:border-amber-700 text-sm text-gray-700 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-gray-700"
+              >
+                <Archive size={14} />
+                <span>Archive {project.name}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Projects Grid with staggered animations */}
       {activeProjects.length === 0 ? (
         <div
@@ -435,13 +630,36 @@ const ProjectDashboard: React.FC = () => {
                       )}
                     </div>
                   </div>
-                  <button
-                    onClick={(e) => handleDeleteProject(e, project)}
-                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100"
-                    title="Delete Project"
-                  >
-                    <Trash2 size={16} />
-                  </button>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => handleDuplicateProject(e, project)}
+                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                      title="Duplicate Project"
+                    >
+                      <Copy size={16} />
+                    </button>
+                    <button
+                      onClick={(e) => openSaveAsTemplate(e, project)}
+                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                      title="Save as Template"
+                    >
+                      <BookmarkPlus size={16} />
+                    </button>
+                    <button
+                      onClick={(e) => handleArchiveProject(e, project)}
+                      className="p-2 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-full transition-colors"
+                      title="Archive Project"
+                    >
+                      <Archive size={16} />
+                    </button>
+                    <button
+                      onClick={(e) => handleDeleteProject(e, project)}
+                      className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                      title="Delete Project"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
                 </div>
 
                 {/* Project Stats */}
@@ -478,6 +696,73 @@ const ProjectDashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Archived Projects */}
+      {archivedProjects.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            Archived
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {archivedProjects.map((project) => {
+              const stats = projectStats[project.id] || {
+                totalTime: 0,
+                sessions: 0,
+              };
+              return (
+                <div key={project.id} className="card opacity-80">
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex items-center space-x-3">
+                      <div
+                        className="w-6 h-6 rounded-full"
+                        style={{ backgroundColor: project.color }}
+                      />
+                      <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                        {project.name}
+                      </h3>
+                    </div>
+                    <button
+                      onClick={() => handleUnarchiveProject(project)}
+                      className="btn btn-secondary flex items-center space-x-1 text-sm"
+                    >
+                      <ArchiveRestore size={14} />
+                      <span>Unarchive</span>
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4 mb-4">
+                    <div>
+                      <p className="text-sm text-gray-500">Total Time</p>
+                      <p className="font-semibold text-gray-900 dark:text-gray-100">
+                        {formatTime(stats.totalTime)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">Sessions</p>
+                      <p className="font-semibold text-gray-900 dark:text-gray-100">
+                        {stats.sessions}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">Last Activity</p>
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {formatLastActivity(stats.lastActivity)}
+                      </p>
+                    </div>
+                  </div>
+
+                  <Link
+                    to={`/project/${project.id}/analytics`}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    View analytics →
+                  </Link>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Create Project Modal */}
       <Modal
         isOpen={showCreateForm}
@@ -486,6 +771,26 @@ const ProjectDashboard: React.FC = () => {
       >
         <form onSubmit={handleCreateProject}>
           <div className="space-y-4">
+            {projectTemplates.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Start From
+                </label>
+                <select
+                  value={projectTemplateId}
+                  onChange={(e) => handleProjectTemplateChange(e.target.value)}
+                  className="input"
+                >
+                  <option value="">Blank project</option>
+                  {projectTemplates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Project Name *
@@ -533,6 +838,40 @@ const ProjectDashboard: React.FC = () => {
                 className="w-full h-10 rounded-lg border border-gray-300"
               />
             </div>
+
+            {projectTemplateId ? (
+              <p className="text-sm text-gray-500">
+                Categories:{" "}
+                {projectTemplates
+                  .find((t) => t.id === projectTemplateId)
+                  ?.categories.join(", ") || "none"}
+              </p>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Categories
+                </label>
+                <select
+                  value={templateId}
+                  onChange={(e) => setTemplateId(e.target.value)}
+                  className="input"
+                >
+                  <option value="">No categories</option>
+                  {categoryTemplates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+                {templateId && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    {categoryTemplates
+                      .find((t) => t.id === templateId)
+                      ?.categories.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="flex justify-end space-x-3 mt-6">
@@ -557,6 +896,68 @@ const ProjectDashboard: React.FC = () => {
         </form>
       </Modal>
 
+      {/* Save as Template Modal */}
+      <Modal
+        isOpen={!!projectToTemplate}
+        onClose={() => setProjectToTemplate(null)}
+        title="Save as Template"
+        className="max-w-md"
+      >
+        <form onSubmit={handleSaveAsTemplate} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Keeps the color, description, categories and timer settings of "
+            {projectToTemplate?.name}". Sessions are not included.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Template Name *
+            </label>
+            <input
+              type="text"
+              value={templateForm.name}
+              onChange={(e) =>
+                setTemplateForm({ ...templateForm, name: e.target.value })
+              }
+              className="input"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Project Name Pattern *
+            </label>
+            <input
+              type="text"
+              value={templateForm.namePattern}
+              onChange={(e) =>
+                setTemplateForm({
+                  ...templateForm,
+                  namePattern: e.target.value,
+                })
+              }
+              className="input"
+              required
+            />
+            <p className="text-sm text-gray-500 mt-1">
+              {"{n}"} counts up from the last project in the series and{" "}
+              {"{date}"} is the day it is created, e.g. "Sprint {"{n}"}"
+            </p>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setProjectToTemplate(null)}
+              className="btn btn-secondary"
+            >
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary">
+              Save Template
+            </button>
+          </div>
+        </form>
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={showDeleteModal && !!projectToDelete}
@@ -570,14 +971,15 @@ const ProjectDashboard: React.FC = () => {
         </div>
         <p className="text-gray-800 mb-4">
           Are you sure you want to delete the project "
-          {projectToDelete?.project.name}"? This action cannot be undone.
+          {projectToDelete?.project.name}"? It will be moved to the trash, where
+          you can restore it until it is purged.
         </p>
         {projectToDelete?.stats.sessions &&
           projectToDelete.stats.sessions > 0 && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
               <div className="flex items-center text-red-800 mb-2">
                 <AlertTriangle size={16} className="mr-2" />
-                <span className="font-medium">Data will be lost:</span>
+                <span className="font-medium">Moving to the trash:</span>
               </div>
               <ul className="text-sm text-red-700 space-y-1">
                 <li>
@@ -16,43 +16,82 @@ import {
   ArrowRight,
   Plus,
   MoreHorizontal,
+  PenLine,
+  Edit3,
 } from "lucide-react";
-import { sessionService } from "../services/database";
+import { rollupService, sessionService } from "../services/database";
+import { subscribeToSessionChanges } from "../services/sessionEvents";
 import { useProjectStore } from "../stores/projectStore";
-import type { TimerSession } from "../types";
+import ProjectTasks from "./ProjectTasks";
+import ManualEntryForm from "./ManualEntryForm";
+import SessionEditor from "./SessionEditor";
+import {
+  getPauseStats,
+  isFocusSession,
+  isManualSession,
+} from "../utils/sessionStats";
+import { toDayKey } from "../utils/rollups";
+import type { DailyRollup, TimerSession } from "../types";
 
 interface ProjectOverviewProps {
   projectId?: string;
 }
 
+// Focus sessions listed under Recent Sessions
+const RECENT_SESSION_COUNT = 5;
+
+const getTimeframeStart = (timeframe: "7d" | "30d") =>
+  new Date(Date.now() - (timeframe === "7d" ? 7 : 30) * 24 * 60 * 60 * 1000);
+
 const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
   const { currentProject } = useProjectStore();
   const [sessions, setSessions] = useState<TimerSession[]>([]);
+  const [latestSessions, setLatestSessions] = useState<TimerSession[]>([]);
+  const [rollups, setRollups] = useState<DailyRollup[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [showManualEntry, setShowManualEntry] = useState(false);
+  const [showFullHistory, setShowFullHistory] = useState(false);
+  const [editingSession, setEditingSession] = useState<TimerSession | null>(
+    null
+  );
   const [selectedTimeframe, setSelectedTimeframe] = useState<
     "7d" | "30d" | "all"
   >("7d");
 
+  // Totals are read from the daily rollups. Sessions are loaded only for the
+  // selected timeframe, for the pause counts per category, plus the latest
+  // few for the history list; editing history loads all of them.
   useEffect(() => {
-    if (projectId) {
-      loadProjectSessions();
-    }
-  }, [projectId]);
-
-  const loadProjectSessions = async () => {
-    try {
-      setIsLoading(true);
-      const allSessions = await sessionService.getAll();
-      const projectSessions = allSessions.filter(
-        (s) => s.projectId === projectId
-      );
-      setSessions(projectSessions);
-    } catch (error) {
-      console.error("Error loading project sessions:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    if (!projectId) return;
+    const since =
+      showFullHistory || selectedTimeframe === "all"
+        ? undefined
+        : getTimeframeStart(selectedTimeframe);
+
+    const loadProjectSessions = async () => {
+      try {
+        const [rangeSessions, latest, projectRollups] = await Promise.all([
+          sessionService.getByProject(projectId, since),
+          sessionService.getLatestFocusByProject(
+            projectId,
+            RECENT_SESSION_COUNT
+          ),
+          rollupService.getAll(projectId),
+        ]);
+        setSessions(rangeSessions);
+        setLatestSessions(latest);
+        setRollups(projectRollups);
+      } catch (error) {
+        console.error("Error loading project sessions:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProjectSessions();
+    // Pick up sessions saved, edited or removed anywhere in the app
+    return subscribeToSessionChanges(loadProjectSessions);
+  }, [projectId, selectedTimeframe, showFullHistory]);
 
   const formatTime = (minutes: number) => {
     if (minutes < 60) {
@@ -81,44 +120,51 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
   };
 
   const getFilteredSessions = useMemo(() => {
-    const workSessions = sessions.filter((s) => s.type === "work");
+    const workSessions = sessions.filter(isFocusSession);
 
     if (selectedTimeframe === "all") return workSessions;
 
-    const now = new Date();
-    const daysAgo = selectedTimeframe === "7d" ? 7 : 30;
-    const cutoffDate = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
-
+    const cutoffDate = getTimeframeStart(selectedTimeframe);
     return workSessions.filter((s) => new Date(s.startTime) >= cutoffDate);
   }, [sessions, selectedTimeframe]);
 
+  // Totals come from the daily rollups; a rollup of "work" sessions counts
+  // as planned pomodoros, since open-ended tracking is recorded as stopwatch
   const getProjectStats = useMemo(() => {
-    const workSessions = sessions.filter((s) => s.type === "work");
-    const filteredSessions = getFilteredSessions;
-
-    const totalTime =
-      workSessions.reduce((sum, session) => sum + session.actualDuration, 0) /
-      (1000 * 60);
-    const filteredTime =
-      filteredSessions.reduce(
-        (sum, session) => sum + session.actualDuration,
-        0
-      ) /
-      (1000 * 60);
-    const completedSessions = workSessions.filter((s) => s.completed).length;
-    const filteredCompletedSessions = filteredSessions.filter(
-      (s) => s.completed
-    ).length;
+    const focusRollups = rollups.filter(isFocusSession);
+    const cutoffDay =
+      selectedTimeframe === "all"
+        ? ""
+        : toDayKey(getTimeframeStart(selectedTimeframe));
+    const filteredRollups = focusRollups.filter((r) => r.date >= cutoffDay);
+
+    const sumMinutes = (list: DailyRollup[]) =>
+      list.reduce((sum, rollup) => sum + rollup.totalDuration, 0) / (1000 * 60);
+    const sumSessions = (list: DailyRollup[]) =>
+      list.reduce((sum, rollup) => sum + rollup.sessionCount, 0);
+    const sumCompleted = (list: DailyRollup[]) =>
+      list
+        .filter((rollup) => rollup.type === "work")
+        .reduce((sum, rollup) => sum + rollup.completedCount, 0);
+
+    const totalTime = sumMinutes(focusRollups);
+    const filteredTime = sumMinutes(filteredRollups);
+    const totalSessions = sumSessions(focusRollups);
+    const filteredSessions = sumSessions(filteredRollups);
+    // Stopwatch sessions have no plan, so they never count as incomplete
+    const pomodoroSessions = sumSessions(
+      focusRollups.filter((rollup) => rollup.type === "work")
+    );
+    const completedSessions = sumCompleted(focusRollups);
+    const filteredCompletedSessions = sumCompleted(filteredRollups);
     const averageSessionLength =
-      workSessions.length > 0 ? totalTime / workSessions.length : 0;
+      totalSessions > 0 ? totalTime / totalSessions : 0;
     const filteredAverageSessionLength =
-      filteredSessions.length > 0 ? filteredTime / filteredSessions.length : 0;
+      filteredSessions > 0 ? filteredTime / filteredSessions : 0;
 
     // Calculate productivity score (0-100)
     const completionRate =
-      workSessions.length > 0
-        ? (completedSessions / workSessions.length) * 100
-        : 0;
+      pomodoroSessions > 0 ? (completedSessions / pomodoroSessions) * 100 : 0;
     const avgSessionScore =
       averageSessionLength >= 25 ? 100 : (averageSessionLength / 25) * 100;
     const productivityScore = Math.round(
@@ -130,21 +176,22 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
       string,
       { time: number; sessions: number }
     >();
-    filteredSessions.forEach((session) => {
-      const date = new Date(session.startTime).toLocaleDateString();
-      const duration = session.actualDuration / (1000 * 60);
-      const existing = dailyBreakdown.get(date) || { time: 0, sessions: 0 };
-      dailyBreakdown.set(date, {
-        time: existing.time + duration,
-        sessions: existing.sessions + 1,
+    filteredRollups.forEach((rollup) => {
+      const existing = dailyBreakdown.get(rollup.date) || {
+        time: 0,
+        sessions: 0,
+      };
+      dailyBreakdown.set(rollup.date, {
+        time: existing.time + rollup.totalDuration / (1000 * 60),
+        sessions: existing.sessions + rollup.sessionCount,
       });
     });
 
     return {
       totalTime: Math.round(totalTime),
       filteredTime: Math.round(filteredTime),
-      totalSessions: workSessions.length,
-      filteredSessions: filteredSessions.length,
+      totalSessions,
+      filteredSessions,
       completedSessions,
       filteredCompletedSessions,
       averageSessionLength: Math.round(averageSessionLength),
@@ -158,22 +205,12 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
         })
       ),
     };
-  }, [sessions, getFilteredSessions]);
-
-  const getRecentSessions = useMemo(() => {
-    return sessions
-      .filter((s) => s.type === "work")
-      .sort(
-        (a, b) =>
-          new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
-      )
-      .slice(0, 5);
-  }, [sessions]);
+  }, [rollups, selectedTimeframe]);
 
   const getCategoryBreakdown = useMemo(() => {
     const categoryMap = new Map<
       string,
-      { name: string; time: number; sessions: number }
+      { name: string; time: number; sessions: number; pauses: number }
     >();
 
     getFilteredSessions.forEach((session) => {
@@ -187,11 +224,13 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
         name: categoryName,
         time: 0,
         sessions: 0,
+        pauses: 0,
       };
       categoryMap.set(categoryName, {
         name: categoryName,
         time: existing.time + duration,
         sessions: existing.sessions + 1,
+        pauses: existing.pauses + getPauseStats(session).pauseCount,
       });
     });
 
@@ -289,7 +328,8 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
   }
 
   const stats = getProjectStats;
-  const recentSessions = getRecentSessions;
+  // The latest focus sessions, or every session when editing history
+  const recentSessions = showFullHistory ? sessions : latestSessions;
   const categoryBreakdown = getCategoryBreakdown;
 
   return (
@@ -476,12 +516,18 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Recent Sessions */}
-        <div className="lg:col-span-2">
+        <div className="lg:col-span-2 space-y-8">
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-                Recent Sessions
+                {showFullHistory ? "Session History" : "Recent Sessions"}
               </h3>
+              <button
+                onClick={() => setShowFullHistory(!showFullHistory)}
+                className="ml-auto mr-4 text-sm font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200"
+              >
+                {showFullHistory ? "Show Recent" : "Edit History"}
+              </button>
               <Link
                 to={`/project/${projectId}/analytics`}
                 className="inline-flex items-center text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 text-sm font-medium transition-colors duration-200"
@@ -520,6 +566,8 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
                   const category = currentProject.categories.find(
                     (c) => c.id === session.categoryId
                   );
+                  const { pauseCount, totalPausedTime } =
+                    getPauseStats(session);
 
                   return (
                     <div
@@ -529,7 +577,11 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
                       <div className="flex items-center space-x-4">
                         <div
                           className={`w-3 h-3 rounded-full ${
-                            session.completed ? "bg-green-500" : "bg-yellow-500"
+                            session.openEnded
+                              ? "bg-teal-500"
+                              : session.completed
+                              ? "bg-green-500"
+                              : "bg-yellow-500"
                           }`}
                         ></div>
                         <div>
@@ -538,22 +590,52 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
                           </p>
                           <p className="text-sm text-gray-500 dark:text-gray-400">
                             {formatDateTime(session.startTime)}
+                            {isManualSession(session) && (
+                              <span className="ml-2">· Manual entry</span>
+                            )}
+                            {pauseCount > 0 && (
+                              <span className="ml-2">
+                                · {pauseCount} pause
+                                {pauseCount !== 1 ? "s" : ""} (
+                                {formatTime(
+                                  Math.round(totalPausedTime / (1000 * 60))
+                                )}
+                                )
+                              </span>
+                            )}
                           </p>
                         </div>
                       </div>
-                      <div className="text-right">
-                        <p className="font-semibold text-gray-900 dark:text-gray-100">
-                          {formatTime(duration)}
-                        </p>
-                        <p
-                          className={`text-sm ${
-                            session.completed
-                              ? "text-green-600 dark:text-green-400"
-                              : "text-yellow-600 dark:text-yellow-400"
-                          }`}
+                      <div className="flex items-center space-x-3">
+                        <div className="text-right">
+                          <p className="font-semibold text-gray-900 dark:text-gray-100">
+                            {formatTime(duration)}
+                          </p>
+                          <p
+                            className={`text-sm ${
+                              session.openEnded
+                                ? "text-teal-600 dark:text-teal-400"
+                                : session.completed
+                                ? "text-green-600 dark:text-green-400"
+                                : "text-yellow-600 dark:text-yellow-400"
+                            }`}
+                          >
+                            {!isFocusSession(session)
+                              ? "Break"
+                              : session.openEnded
+                              ? "Stopwatch"
+                              : session.completed
+                              ? "Completed"
+                              : "Incomplete"}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => setEditingSession(session)}
+                          className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+                          aria-label="Edit session"
                         >
-                          {session.completed ? "Completed" : "Incomplete"}
-                        </p>
+                          <Edit3 size={16} />
+                        </button>
                       </div>
                     </div>
                   );
@@ -561,6 +643,8 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
               </div>
             )}
           </div>
+
+          <ProjectTasks project={currentProject} />
         </div>
 
         {/* Sidebar */}
@@ -605,7 +689,7 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
                         {formatTime(Math.round(category.time))}
                       </p>
                       <p className="text-xs text-gray-500 dark:text-gray-400">
-                        {category.sessions} sessions
+                        {category.sessions} sessions · {category.pauses} pauses
                       </p>
                     </div>
                   </div>
@@ -704,10 +788,34 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({ projectId }) => {
                 </div>
                 <ArrowRight className="w-4 h-4 text-gray-400 dark:text-gray-500" />
               </Link>
+
+              <button
+                onClick={() => setShowManualEntry(true)}
+                className="flex items-center justify-between w-full p-3 bg-white dark:bg-gray-800 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors duration-200 border border-gray-200 dark:border-gray-600"
+              >
+                <div className="flex items-center space-x-3">
+                  <PenLine className="w-5 h-5 text-green-600 dark:text-green-400" />
+                  <span className="font-medium text-gray-900 dark:text-gray-100">
+                    Add Time Entry
+                  </span>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 dark:text-gray-500" />
+              </button>
             </div>
           </div>
         </div>
       </div>
+
+      <ManualEntryForm
+        isOpen={showManualEntry}
+        onClose={() => setShowManualEntry(false)}
+        projectId={projectId}
+      />
+
+      <SessionEditor
+        session={editingSession}
+        onClose={() => setEditingSession(null)}
+      />
     </div>
   );
 };
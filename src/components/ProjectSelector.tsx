@@ -1,8 +1,25 @@
 import React, { useState } from "react";
-import { ChevronDown, Plus, Edit, Trash2 } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  Edit,
+  Trash2,
+  Archive,
+  Merge,
+} from "lucide-react";
+import toast from "react-hot-toast";
 import { useProjectStore } from "../stores/projectStore";
 import Modal from "./Modal";
-import type { Project, Category } from "../types";
+import ProjectTimerOverrides from "./ProjectTimerOverrides";
+import TaskPicker from "./TaskPicker";
+import CategoryDeleteModal from "./CategoryDeleteModal";
+import CategoryMergeModal from "./CategoryMergeModal";
+import { cleanOverrides, getProjectErrorMessage } from "../utils/timerSettings";
+import { showUndoToast } from "../utils/undoToast";
+import { getDefaultCategoryTemplate } from "../utils/categoryTemplates";
+import { useSettingsStore } from "../stores/settingsStore";
+import type { Project, Category, ProjectTimerSettings } from "../types";
 
 const ProjectSelector: React.FC = () => {
   const {
@@ -14,9 +31,9 @@ const ProjectSelector: React.FC = () => {
     createProject,
     updateProject,
     deleteProject,
+    restoreProject,
     createCategory,
     updateCategory,
-    deleteCategory,
     error,
   } = useProjectStore();
 
@@ -24,6 +41,10 @@ const ProjectSelector: React.FC = () => {
   const [isCategoryDropdownOpen, setIsCategoryDropdownOpen] = useState(false);
   const [showProjectForm, setShowProjectForm] = useState(false);
   const [showCategoryForm, setShowCategoryForm] = useState(false);
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(
+    null
+  );
+  const [categoryToMerge, setCategoryToMerge] = useState<Category | null>(null);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
 
@@ -34,27 +55,42 @@ const ProjectSelector: React.FC = () => {
     color: "#3b82f6",
   });
 
+  const [overridesForm, setOverridesForm] = useState<ProjectTimerSettings>({});
+  const [showOverrides, setShowOverrides] = useState(false);
+
   const [categoryForm, setCategoryForm] = useState({
     name: "",
   });
 
+  const resetProjectForm = () => {
+    setProjectForm({ name: "", description: "", color: "#3b82f6" });
+    setOverridesForm({});
+    setShowOverrides(false);
+  };
+
   const handleCreateProject = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!projectForm.name.trim()) return;
 
     try {
-      await createProject({
-        name: projectForm.name.trim(),
-        description: projectForm.description.trim(),
-        color: projectForm.color,
-        status: "active",
-        categories: [],
-      });
-
-      setProjectForm({ name: "", description: "", color: "#3b82f6" });
+      await createProject(
+        {
+          name: projectForm.name.trim(),
+          description: projectForm.description.trim(),
+          color: projectForm.color,
+          status: "active",
+          categories: [],
+          settingsOverrides: cleanOverrides(overridesForm),
+        },
+        getDefaultCategoryTemplate(useSettingsStore.getState().settings)
+          ?.categories
+      );
+
+      resetProjectForm();
       setShowProjectForm(false);
     } catch (error) {
       console.error("Error creating project:", error);
+      toast.error(getProjectErrorMessage(error, "Failed to create project"));
     }
   };
 
@@ -67,26 +103,43 @@ const ProjectSelector: React.FC = () => {
         name: projectForm.name.trim(),
         description: projectForm.description.trim(),
         color: projectForm.color,
+        settingsOverrides: cleanOverrides(overridesForm),
       });
 
-      setProjectForm({ name: "", description: "", color: "#3b82f6" });
+      resetProjectForm();
       setEditingProject(null);
       setShowProjectForm(false);
     } catch (error) {
       console.error("Error updating project:", error);
+      toast.error(getProjectErrorMessage(error, "Failed to update project"));
+    }
+  };
+
+  // Archived projects leave the picker but keep their history
+  const handleArchiveProject = async (project: Project) => {
+    try {
+      await updateProject(project.id, { status: "archived" });
+      toast.success(`Project "${project.name}" archived`);
+    } catch (error) {
+      console.error("Error archiving project:", error);
+      toast.error(`Failed to archive "${project.name}"`);
     }
   };
 
   const handleDeleteProject = async (project: Project) => {
     if (
       window.confirm(
-        `Are you sure you want to delete "${project.name}"? This will also delete all associated categories and sessions.`
+        `Move "${project.name}" to the trash? Its categories and sessions go with it.`
       )
     ) {
       try {
         await deleteProject(project.id);
+        showUndoToast(`Project "${project.name}" moved to trash`, () =>
+          restoreProject(project.id)
+        );
       } catch (error) {
         console.error("Error deleting project:", error);
+        toast.error(`Failed to delete "${project.name}"`);
       }
     }
   };
@@ -125,14 +178,14 @@ const ProjectSelector: React.FC = () => {
     }
   };
 
-  const handleDeleteCategory = async (category: Category) => {
-    if (window.confirm(`Are you sure you want to delete "${category.name}"?`)) {
-      try {
-        await deleteCategory(category.id);
-      } catch (error) {
-        console.error("Error deleting category:", error);
-      }
-    }
+  const handleDeleteCategory = (category: Category) => {
+    setCategoryToDelete(category);
+    setIsCategoryDropdownOpen(false);
+  };
+
+  const handleMergeCategory = (category: Category) => {
+    setCategoryToMerge(category);
+    setIsCategoryDropdownOpen(false);
   };
 
   const openEditProject = (project: Project) => {
@@ -142,6 +195,10 @@ const ProjectSelector: React.FC = () => {
       description: project.description || "",
       color: project.color,
     });
+    setOverridesForm(project.settingsOverrides || {});
+    setShowOverrides(
+      Object.keys(cleanOverrides(project.settingsOverrides)).length > 0
+    );
     setShowProjectForm(true);
     setIsProjectDropdownOpen(false);
   };
@@ -229,6 +286,13 @@ const ProjectSelector: React.FC = () => {
                     >
                       <Edit size={16} />
                     </button>
+                    <button
+                      onClick={() => handleArchiveProject(project)}
+                      className="p-1 text-gray-400 hover:text-amber-600"
+                      aria-label={`Archive ${project.name}`}
+                    >
+                      <Archive size={16} />
+                    </button>
                     <button
                       onClick={() => handleDeleteProject(project)}
                       className="p-1 text-gray-400 hover:text-red-600"
@@ -300,6 +364,16 @@ const ProjectSelector: React.FC = () => {
                       >
                         <Edit size={16} />
                       </button>
+                      {currentProject.categories.length > 1 && (
+                        <button
+                          onClick={() => handleMergeCategory(category)}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          title="Merge into another category"
+                          aria-label={`Merge ${category.name} into another category`}
+                        >
+                          <Merge size={16} />
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDeleteCategory(category)}
                         className="p-1 text-gray-400 hover:text-red-600"
@@ -328,17 +402,16 @@ const ProjectSelector: React.FC = () => {
         </div>
       )}
 
+      {/* Task Selector */}
+      <TaskPicker />
+
       {/* Project Form Modal */}
       <Modal
         isOpen={showProjectForm}
         onClose={() => {
           setShowProjectForm(false);
           setEditingProject(null);
-          setProjectForm({
-            name: "",
-            description: "",
-            color: "#3b82f6",
-          });
+          resetProjectForm();
         }}
         title={editingProject ? "Edit Project" : "Create New Project"}
         className="max-w-md"
@@ -394,6 +467,30 @@ const ProjectSelector: React.FC = () => {
                 className="w-full h-10 rounded-lg border border-gray-300 dark:border-gray-600"
               />
             </div>
+
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowOverrides(!showOverrides)}
+                className="flex items-center space-x-1 text-sm font-medium text-gray-700 dark:text-gray-300"
+                aria-expanded={showOverrides}
+              >
+                {showOverrides ? (
+                  <ChevronDown size={16} />
+                ) : (
+                  <ChevronRight size={16} />
+                )}
+                <span>Timer Settings</span>
+              </button>
+              {showOverrides && (
+                <div className="mt-3">
+                  <ProjectTimerOverrides
+                    value={overridesForm}
+                    onChange={setOverridesForm}
+                  />
+                </div>
+              )}
+            </div>
           </div>
 
           <div className="flex justify-end space-x-3 mt-6">
@@ -402,11 +499,7 @@ const ProjectSelector: React.FC = () => {
               onClick={() => {
                 setShowProjectForm(false);
                 setEditingProject(null);
-                setProjectForm({
-                  name: "",
-                  description: "",
-                  color: "#3b82f6",
-                });
+                resetProjectForm();
               }}
               className="btn btn-secondary"
             >
@@ -467,6 +560,16 @@ const ProjectSelector: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <CategoryDeleteModal
+        category={categoryToDelete}
+        onClose={() => setCategoryToDelete(null)}
+      />
+
+      <CategoryMergeModal
+        category={categoryToMerge}
+        onClose={() => setCategoryToMerge(null)}
+      />
     </div>
   );
 };
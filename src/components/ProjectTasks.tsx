@@ -0,0 +1,282 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ListTodo, Plus, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useTaskStore } from "../stores/taskStore";
+import { sessionService } from "../services/database";
+import { subscribeToSessionChanges } from "../services/sessionEvents";
+import { isFocusSession, isPomodoroSession } from "../utils/sessionStats";
+import type { Project, Task, TimerSession } from "../types";
+
+interface ProjectTasksProps {
+  project: Project;
+}
+
+const STATUS_LABELS: Record<Task["status"], string> = {
+  todo: "To do",
+  in_progress: "In progress",
+  blocked: "Blocked",
+};
+
+// A project's tasks with estimated against completed pomodoros
+const ProjectTasks: React.FC<ProjectTasksProps> = ({ project }) => {
+  const { tasks, createTask, updateTask, deleteTask } = useTaskStore();
+  const [sessions, setSessions] = useState<TimerSession[]>([]);
+
+  const [title, setTitle] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [estimate, setEstimate] = useState(1);
+
+  const projectTasks = useMemo(
+    () =>
+      tasks
+        .filter((task) => task.projectId === project.id)
+        .sort((a, b) => Number(a.done) - Number(b.done)),
+    [tasks, project.id]
+  );
+
+  // Progress counts every session of a task, not just those on screen in
+  // the project overview
+  const taskIdsKey = projectTasks.map((task) => task.id).join(",");
+  useEffect(() => {
+    const taskIds = taskIdsKey ? taskIdsKey.split(",") : [];
+    const loadTaskSessions = async () => {
+      try {
+        setSessions(await sessionService.getByTasks(taskIds));
+      } catch (error) {
+        console.error("Error loading task sessions:", error);
+      }
+    };
+
+    loadTaskSessions();
+    return subscribeToSessionChanges(loadTaskSessions);
+  }, [taskIdsKey]);
+
+  // Completed pomodoros and focused minutes per task
+  const taskProgress = useMemo(() => {
+    const progress = new Map<string, { pomodoros: number; time: number }>();
+    sessions.filter(isFocusSession).forEach((session) => {
+      if (!session.taskId) return;
+      const entry = progress.get(session.taskId) || { pomodoros: 0, time: 0 };
+      if (isPomodoroSession(session) && session.completed) {
+        entry.pomodoros++;
+      }
+      entry.time += session.actualDuration / (1000 * 60);
+      progress.set(session.taskId, entry);
+    });
+    return progress;
+  }, [sessions]);
+
+  const getCategoryName = (id: string) =>
+    project.categories.find((c) => c.id === id)?.name || "Unknown";
+
+  const handleCreateTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const taskCategoryId = categoryId || project.categories[0]?.id;
+    if (!title.trim() || !taskCategoryId) return;
+
+    try {
+      await createTask({
+        projectId: project.id,
+        categoryId: taskCategoryId,
+        title: title.trim(),
+        status: "todo",
+        estimatedPomodoros: Math.max(1, estimate),
+        done: false,
+      });
+      setTitle("");
+      setEstimate(1);
+    } catch (error) {
+      console.error("Error creating task:", error);
+      toast.error("Failed to create task");
+    }
+  };
+
+  const handleUpdateTask = async (id: string, updates: Partial<Task>) => {
+    try {
+      await updateTask(id, updates);
+    } catch (error) {
+      console.error("Error updating task:", error);
+      toast.error("Failed to update task");
+    }
+  };
+
+  const handleDeleteTask = async (task: Task) => {
+    if (!window.confirm(`Delete the task "${task.title}"?`)) return;
+    try {
+      await deleteTask(task.id);
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      toast.error("Failed to delete task");
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          Tasks
+        </h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {projectTasks.filter((task) => task.done).length} of{" "}
+          {projectTasks.length} done
+        </span>
+      </div>
+
+      <form
+        onSubmit={handleCreateTask}
+        className="flex flex-wrap items-center gap-2 mb-6"
+      >
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="input flex-1 min-w-[12rem]"
+          placeholder="New task"
+          aria-label="Task title"
+        />
+        <select
+          value={categoryId || project.categories[0]?.id || ""}
+          onChange={(e) => setCategoryId(e.target.value)}
+          className="input w-auto"
+          aria-label="Task category"
+        >
+          {project.categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="1"
+          max="50"
+          value={estimate}
+          onChange={(e) => setEstimate(parseInt(e.target.value) || 1)}
+          className="input w-20"
+          aria-label="Estimated pomodoros"
+          title="Estimated pomodoros"
+        />
+        <button
+          type="submit"
+          className="btn btn-primary flex items-center space-x-1"
+        >
+          <Plus size={16} />
+          <span>Add</span>
+        </button>
+      </form>
+
+      {projectTasks.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="w-12 h-12 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-3">
+            <ListTodo className="w-6 h-6 text-gray-400 dark:text-gray-500" />
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No tasks yet. Add one and pick it on the timer.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {projectTasks.map((task) => {
+            const progress = taskProgress.get(task.id) || {
+              pomodoros: 0,
+              time: 0,
+            };
+            const isOverEstimate = progress.pomodoros > task.estimatedPomodoros;
+
+            return (
+              <div
+                key={task.id}
+                className={`p-4 bg-gray-50 dark:bg-gray-700 rounded-lg ${
+                  task.done ? "opacity-60" : ""
+                }`}
+              >
+                <div className="flex items-start justify-between">
+                  <label className="flex items-start space-x-3 min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={task.done}
+                      onChange={(e) =>
+                        handleUpdateTask(task.id, { done: e.target.checked })
+                      }
+                      className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="min-w-0">
+                      <p
+                        className={`font-medium text-gray-900 dark:text-gray-100 ${
+                          task.done ? "line-through" : ""
+                        }`}
+                      >
+                        {task.title}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {getCategoryName(task.categoryId)} ·{" "}
+                        {Math.round(progress.time)}m focused
+                      </p>
+                    </div>
+                  </label>
+                  <div className="flex items-center space-x-2 ml-2">
+                    {!task.done && (
+                      <select
+                        value={task.status}
+                        onChange={(e) =>
+                          handleUpdateTask(task.id, {
+                            status: e.target.value as Task["status"],
+                          })
+                        }
+                        className="input py-1 text-xs w-auto"
+                        aria-label={`Status of ${task.title}`}
+                      >
+                        {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => handleDeleteTask(task)}
+                      className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      aria-label={`Delete task ${task.title}`}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-3">
+                  <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    <span>Pomodoros</span>
+                    <span
+                      className={
+                        isOverEstimate
+                          ? "text-amber-600 dark:text-amber-400 font-medium"
+                          : ""
+                      }
+                    >
+                      {progress.pomodoros} / {task.estimatedPomodoros} estimated
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-2 overflow-hidden">
+                    <div
+                      className={`h-2 rounded-full ${
+                        isOverEstimate ? "bg-amber-500" : "bg-blue-500"
+                      }`}
+                      style={{
+                        width: `${Math.min(
+                          100,
+                          (progress.pomodoros / task.estimatedPomodoros) * 100
+                        )}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectTasks;
@@ -0,0 +1,63 @@
+import React from "react";
+import { Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useSettingsStore } from "../stores/settingsStore";
+
+// Project templates saved from the projects page; here they can be removed
+const ProjectTemplateManager: React.FC = () => {
+  const { settings, updateSettings } = useSettingsStore();
+  const templates = settings.projectTemplates ?? [];
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    await updateSettings({
+      projectTemplates: templates.filter((t) => t.id !== templateId),
+    });
+    toast.success("Template deleted");
+  };
+
+  if (templates.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No project templates yet. Save one from a project card on the projects
+        page.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {templates.map((template) => (
+        <div
+          key={template.id}
+          className="flex items-start justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+        >
+          <div className="flex items-start space-x-3 min-w-0">
+            <div
+              className="w-4 h-4 mt-0.5 rounded-full flex-shrink-0"
+              style={{ backgroundColor: template.color }}
+            />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {template.name}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Names: {template.namePattern} · {template.categories.length}{" "}
+                categor
+                {template.categories.length !== 1 ? "ies" : "y"}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => handleDeleteTemplate(template.id)}
+            className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+            aria-label={`Delete template ${template.name}`}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProjectTemplateManager;
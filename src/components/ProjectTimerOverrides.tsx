@@ -0,0 +1,122 @@
+import React from "react";
+import { useSettingsStore } from "../stores/settingsStore";
+import { NUMBER_SETTING_RANGES } from "../utils/settingsSchema";
+import type { ProjectTimerSettings } from "../types";
+
+interface ProjectTimerOverridesProps {
+  value: ProjectTimerSettings;
+  onChange: (value: ProjectTimerSettings) => void;
+}
+
+const DURATION_FIELDS: Array<{
+  key: "workDuration" | "shortBreakDuration" | "longBreakDuration";
+  label: string;
+}> = [
+  { key: "workDuration", label: "Work (min)" },
+  { key: "shortBreakDuration", label: "Short Break (min)" },
+  { key: "longBreakDuration", label: "Long Break (min)" },
+];
+
+const TOGGLE_FIELDS: Array<{
+  key: "autoStartBreaks" | "audioEnabled";
+  label: string;
+}> = [
+  { key: "autoStartBreaks", label: "Auto-start Breaks" },
+  { key: "audioEnabled", label: "Sounds" },
+];
+
+// Timer settings a project can override; blank fields follow the global
+// settings, which are shown as placeholders
+const ProjectTimerOverrides: React.FC<ProjectTimerOverridesProps> = ({
+  value,
+  onChange,
+}) => {
+  const { settings } = useSettingsStore();
+
+  const handleNumberChange = (
+    key: keyof ProjectTimerSettings,
+    input: string
+  ) => {
+    onChange({ ...value, [key]: input === "" ? undefined : parseInt(input) });
+  };
+
+  const handleToggleChange = (
+    key: "autoStartBreaks" | "audioEnabled",
+    input: string
+  ) => {
+    onChange({ ...value, [key]: input === "" ? undefined : input === "on" });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {DURATION_FIELDS.map((field) => (
+          <div key={field.key}>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              {field.label}
+            </label>
+            <input
+              type="number"
+              min={NUMBER_SETTING_RANGES[field.key].min}
+              max={NUMBER_SETTING_RANGES[field.key].max}
+              value={value[field.key] ?? ""}
+              onChange={(e) => handleNumberChange(field.key, e.target.value)}
+              className="input"
+              placeholder={String(settings[field.key])}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+            Long Break Interval
+          </label>
+          <input
+            type="number"
+            min={NUMBER_SETTING_RANGES.longBreakInterval.min}
+            max={NUMBER_SETTING_RANGES.longBreakInterval.max}
+            value={value.longBreakInterval ?? ""}
+            onChange={(e) =>
+              handleNumberChange("longBreakInterval", e.target.value)
+            }
+            className="input"
+            placeholder={String(settings.longBreakInterval)}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {TOGGLE_FIELDS.map((field) => (
+          <div key={field.key}>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              {field.label}
+            </label>
+            <select
+              value={
+                value[field.key] === undefined
+                  ? ""
+                  : value[field.key]
+                  ? "on"
+                  : "off"
+              }
+              onChange={(e) => handleToggleChange(field.key, e.target.value)}
+              className="input"
+            >
+              <option value="">
+                Default ({settings[field.key] ? "On" : "Off"})
+              </option>
+              <option value="on">On</option>
+              <option value="off">Off</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Custom durations replace the active timer preset while this project is
+        selected.
+      </p>
+    </div>
+  );
+};
+
+export default ProjectTimerOverrides;
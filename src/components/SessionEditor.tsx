@@ -0,0 +1,383 @@
+import React, { useEffect, useState } from "react";
+import { Scissors, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import Modal from "./Modal";
+import TagPicker from "./TagPicker";
+import { useProjectStore } from "../stores/projectStore";
+import { sessionService } from "../services/database";
+import { validateSessionData } from "../utils/performance";
+import { showUndoToast } from "../utils/undoToast";
+import {
+  SESSION_TYPE_OPTIONS,
+  getSessionEnd,
+  retimeSession,
+  splitSession,
+  toLocalInputValue,
+  validateSessionRange,
+} from "../utils/sessionEditing";
+import type { TimerSession } from "../types";
+
+interface SessionEditorProps {
+  session: TimerSession | null;
+  onClose: () => void;
+}
+
+// Edit, split or delete a saved session
+const SessionEditor: React.FC<SessionEditorProps> = ({ session, onClose }) => {
+  const { projects } = useProjectStore();
+
+  const [mode, setMode] = useState<"edit" | "split">("edit");
+  const [projectId, setProjectId] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [type, setType] = useState<TimerSession["type"]>("work");
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [completed, setCompleted] = useState(false);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [splitAt, setSplitAt] = useState("");
+  const [splitCategoryId, setSplitCategoryId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!session) return;
+    const startTime = new Date(session.startTime);
+    const endTime = getSessionEnd(session);
+    setMode("edit");
+    setProjectId(session.projectId);
+    setCategoryId(session.categoryId);
+    setType(session.type);
+    setStart(toLocalInputValue(startTime));
+    setEnd(toLocalInputValue(endTime));
+    setCompleted(session.completed);
+    setTagIds(session.tagIds ?? []);
+    setSplitAt(
+      toLocalInputValue(new Date((startTime.getTime() + endTime.getTime()) / 2))
+    );
+    setSplitCategoryId(session.categoryId);
+  }, [session]);
+
+  if (!session) return null;
+
+  const selectedProject = projects.find((p) => p.id === projectId);
+  const sessionProject = projects.find((p) => p.id === session.projectId);
+
+  const handleProjectChange = (id: string) => {
+    setProjectId(id);
+    setCategoryId(projects.find((p) => p.id === id)?.categories[0]?.id || "");
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Inputs only carry minutes; untouched times keep their seconds
+    const startTime =
+      start === toLocalInputValue(new Date(session.startTime))
+        ? new Date(session.startTime)
+        : new Date(start);
+    const endTime =
+      end === toLocalInputValue(getSessionEnd(session))
+        ? getSessionEnd(session)
+        : new Date(end);
+
+    const rangeError = validateSessionRange(startTime, endTime);
+    if (rangeError) {
+      toast.error(rangeError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const overlap = await sessionService.findOverlapping(startTime, endTime, [
+        session.id,
+      ]);
+      if (overlap) {
+        toast.error(
+          `Overlaps a session from ${new Date(
+            overlap.startTime
+          ).toLocaleString()} to ${getSessionEnd(overlap).toLocaleTimeString()}`
+        );
+        return;
+      }
+
+      const timing = retimeSession(session, startTime, endTime);
+      const isStopwatch = type === "stopwatch";
+      const updates: Partial<TimerSession> = {
+        ...timing,
+        projectId,
+        categoryId,
+        // A task belongs to one category
+        taskId: categoryId === session.categoryId ? session.taskId : undefined,
+        type,
+        openEnded: isStopwatch || undefined,
+        plannedDuration: isStopwatch
+          ? 0
+          : session.openEnded
+          ? timing.actualDuration
+          : session.plannedDuration,
+        completed: isStopwatch || completed,
+        tagIds,
+      };
+
+      const validation = validateSessionData({ ...session, ...updates });
+      if (!validation.isValid) {
+        toast.error(`Invalid session: ${validation.errors.join(", ")}`);
+        return;
+      }
+
+      await sessionService.update(session.id, updates);
+      toast.success("Session updated");
+      onClose();
+    } catch (error) {
+      console.error("Error updating session:", error);
+      toast.error("Failed to update session");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSplit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const at = new Date(splitAt);
+    if (
+      isNaN(at.getTime()) ||
+      at <= new Date(session.startTime) ||
+      at >= getSessionEnd(session)
+    ) {
+      toast.error("Pick a split time between the session's start and end");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const [first, second] = splitSession(session, at, splitCategoryId);
+      await sessionService.split(session.id, first, second);
+      toast.success("Session split in two");
+      onClose();
+    } catch (error) {
+      console.error("Error splitting session:", error);
+      toast.error("Failed to split session");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await sessionService.delete(session.id);
+      showUndoToast("Session moved to trash", () =>
+        sessionService.restore(session.id)
+      );
+      onClose();
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      toast.error("Failed to delete session");
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!session}
+      onClose={onClose}
+      title="Edit Session"
+      className="max-w-md max-h-[90vh] overflow-y-auto"
+    >
+      <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1 mb-4">
+        {(["edit", "split"] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            className={`flex-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+              mode === value
+                ? "bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100 shadow-sm"
+                : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+            }`}
+          >
+            {value === "edit" ? "Details" : "Split"}
+          </button>
+        ))}
+      </div>
+
+      {mode === "edit" ? (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Project
+              </label>
+              <select
+                value={projectId}
+                onChange={(e) => handleProjectChange(e.target.value)}
+                className="input"
+              >
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Category
+              </label>
+              <select
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+                className="input"
+                required
+              >
+                {selectedProject?.categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Type
+            </label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as TimerSession["type"])}
+              className="input"
+            >
+              {SESSION_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Start
+              </label>
+              <input
+                type="datetime-local"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                className="input"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                End
+              </label>
+              <input
+                type="datetime-local"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                className="input"
+                required
+              />
+            </div>
+          </div>
+
+          {type !== "stopwatch" && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={completed}
+                onChange={(e) => setCompleted(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Completed as planned</span>
+            </label>
+          )}
+
+          <TagPicker selectedIds={tagIds} onChange={setTagIds} />
+
+          <div className="flex items-center justify-between pt-2">
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="flex items-center space-x-1 text-sm text-red-600 dark:text-red-400 hover:underline"
+            >
+              <Trash2 size={16} />
+              <span>Delete</span>
+            </button>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="btn btn-secondary"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || !categoryId}
+                className="btn btn-primary disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </form>
+      ) : (
+        <form onSubmit={handleSplit} className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            The part before the split keeps this session's details; the part
+            after it can go to another category.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Split at
+            </label>
+            <input
+              type="datetime-local"
+              value={splitAt}
+              onChange={(e) => setSplitAt(e.target.value)}
+              min={toLocalInputValue(new Date(session.startTime))}
+              max={toLocalInputValue(getSessionEnd(session))}
+              className="input"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Category after the split
+            </label>
+            <select
+              value={splitCategoryId}
+              onChange={(e) => setSplitCategoryId(e.target.value)}
+              className="input"
+            >
+              {sessionProject?.categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-secondary"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="btn btn-primary flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Scissors size={16} />
+              <span>{isSaving ? "Splitting..." : "Split"}</span>
+            </button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+};
+
+export default SessionEditor;
@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import { History, Play, Save, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import Modal from "./Modal";
+import {
+  resumeRecoveredSession,
+  saveRecoveredSession,
+  discardRecoveredSession,
+  type TimerRecovery,
+} from "../services/timerPersistence";
+import { getRemainingMs } from "../stores/timerStore";
+import { formatClock } from "../utils/performance";
+import type { TimerState } from "../types";
+
+interface SessionRecoveryModalProps {
+  recovery: TimerRecovery | null;
+  onResolved: () => void;
+}
+
+const MODE_LABELS = {
+  work: "Work session",
+  short_break: "Short break",
+  long_break: "Long break",
+  stopwatch: "Stopwatch session",
+};
+
+// Offers to resume, save or discard a session left behind by a reload or crash
+const SessionRecoveryModal: React.FC<SessionRecoveryModalProps> = ({
+  recovery,
+  onResolved,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!recovery) return null;
+
+  const { checkpoint, state } = recovery;
+  const countdownMs = getRemainingMs(
+    state as TimerState,
+    checkpoint.savedAt.getTime()
+  );
+  const remainingMs = state.isOvertime ? countdownMs : Math.max(0, countdownMs);
+  const elapsedSeconds = Math.round(
+    (checkpoint.totalTime * 1000 - remainingMs) / 1000
+  );
+  // The stopwatch has nothing left to count down
+  const countdownText =
+    checkpoint.currentMode === "stopwatch"
+      ? null
+      : remainingMs < 0
+      ? `+${formatClock(Math.floor(-remainingMs / 1000))} overtime`
+      : `${formatClock(Math.ceil(remainingMs / 1000))} remaining`;
+  const startedAt = checkpoint.sessionStartTime?.toLocaleString() || "earlier";
+  const canSave = !!state.currentProject && !!state.currentCategory;
+
+  const handleResume = () => {
+    resumeRecoveredSession(recovery);
+    toast.success("Session restored. Press start to continue.", {
+      icon: "⏯️",
+    });
+    onResolved();
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveRecoveredSession(recovery);
+      toast.success("Recovered session saved!", { icon: "✅" });
+      onResolved();
+    } catch (error) {
+      console.error("Error saving recovered session:", error);
+      toast.error("Failed to save recovered session");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    discardRecoveredSession(recovery);
+    onResolved();
+  };
+
+  return (
+    <Modal
+      isOpen={!!recovery}
+      onClose={handleResume}
+      title="Unfinished Session Found"
+    >
+      <div className="flex items-start space-x-3 mb-6">
+        <div className="p-2 bg-blue-100 dark:bg-blue-800 rounded-lg">
+          <History className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+          <p>
+            {MODE_LABELS[checkpoint.currentMode]}
+            {state.currentProject && (
+              <>
+                {" "}
+                for <strong>{state.currentProject.name}</strong>
+              </>
+            )}
+            {state.currentCategory && <> ({state.currentCategory.name})</>}
+          </p>
+          <p>
+            Started {startedAt}, last seen{" "}
+            {checkpoint.savedAt.toLocaleTimeString()}
+          </p>
+          <p>
+            {formatClock(elapsedSeconds)} tracked
+            {countdownText && `, ${countdownText}`}
+          </p>
+        </div>
+      </div>
+
+      {!canSave && (
+        <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-4">
+          The project or category of this session no longer exists, so it can
+          only be resumed or discarded.
+        </p>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={handleDiscard}
+          className="btn btn-secondary flex items-center space-x-2"
+          disabled={isSaving}
+        >
+          <Trash2 size={16} />
+          <span>Discard</span>
+        </button>
+        <button
+          onClick={handleSave}
+          className="btn btn-secondary flex items-center space-x-2"
+          disabled={isSaving || !canSave}
+        >
+          <Save size={16} />
+          <span>{isSaving ? "Saving..." : "Save"}</span>
+        </button>
+        <button
+          onClick={handleResume}
+          className="btn btn-primary flex items-center space-x-2"
+          disabled={isSaving}
+        >
+          <Play size={16} />
+          <span>Resume</span>
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default SessionRecoveryModal;
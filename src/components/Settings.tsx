@@ -3,6 +3,12 @@ import { Save, RotateCcw } from "lucide-react";
 import { useSettingsStore } from "../stores/settingsStore";
 import { applyTheme } from "../utils/theme";
 import Modal from "./Modal";
+import PresetManager from "./PresetManager";
+import CategoryTemplateManager from "./CategoryTemplateManager";
+import ProjectTemplateManager from "./ProjectTemplateManager";
+import TagManager from "./TagManager";
+import IntegrityChecker from "./IntegrityChecker";
+import BackupRestore from "./BackupRestore";
 
 interface SettingsProps {
   isOpen: boolean;
@@ -20,7 +26,11 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
     longBreakInterval: settings.longBreakInterval,
     audioEnabled: settings.audioEnabled,
     notificationsEnabled: settings.notificationsEnabled,
+    overtimeEnabled: settings.overtimeEnabled,
     theme: settings.theme,
+    trashRetentionDays: settings.trashRetentionDays,
+    archiveSuggestionWeeks: settings.archiveSuggestionWeeks,
+    integrityCheckOnStartup: settings.integrityCheckOnStartup,
   });
 
   // Update form data when settings change
@@ -32,7 +42,11 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
       longBreakInterval: settings.longBreakInterval,
       audioEnabled: settings.audioEnabled,
       notificationsEnabled: settings.notificationsEnabled,
+      overtimeEnabled: settings.overtimeEnabled,
       theme: settings.theme,
+      trashRetentionDays: settings.trashRetentionDays,
+      archiveSuggestionWeeks: settings.archiveSuggestionWeeks,
+      integrityCheckOnStartup: settings.integrityCheckOnStartup,
     });
   }, [settings]);
 
@@ -53,21 +67,18 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
     ) {
       try {
         await resetSettings();
-        setFormData({
-          workDuration: 25,
-          shortBreakDuration: 5,
-          longBreakDuration: 15,
-          longBreakInterval: 4,
-          audioEnabled: true,
-          notificationsEnabled: true,
-          theme: "system",
-        });
       } catch (error) {
         console.error("Error resetting settings:", error);
       }
     }
   };
 
+  // Closing without saving drops a previewed theme
+  const handleClose = () => {
+    applyTheme(settings.theme);
+    onClose();
+  };
+
   const handleInputChange = (
     field: string,
     value: string | number | boolean
@@ -77,7 +88,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
       [field]: value,
     }));
 
-    // Apply theme immediately if theme is changed
+    // Preview the theme right away; it is only kept once saved
     if (field === "theme") {
       const themeValue = value as "light" | "dark" | "system";
       applyTheme(themeValue);
@@ -87,7 +98,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
   return (
     <Modal
       isOpen={isOpen}
-      onClose={onClose}
+      onClose={handleClose}
       title="Settings"
       className="max-w-md max-h-[90vh] overflow-y-auto"
     >
@@ -179,9 +190,77 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
                 Take a long break after this many completed work sessions
               </p>
             </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Overtime Mode
+                </label>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Keep counting past zero and finish work sessions yourself
+                </p>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.overtimeEnabled}
+                  onChange={(e) =>
+                    handleInputChange("overtimeEnabled", e.target.checked)
+                  }
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-gray-200 dark:bg-gray-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-400 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600 dark:peer-checked:bg-blue-500"></div>
+              </label>
+            </div>
           </div>
         </div>
 
+        {/* Timer Presets */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">
+            Timer Presets
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Custom cycles of work and break intervals, e.g. work 50, break 10,
+            work 50, break 30
+          </p>
+          <PresetManager />
+        </div>
+
+        {/* Category Templates */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">
+            Category Templates
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Sets of categories to start new projects with; the one marked
+            Default is picked unless you choose another
+          </p>
+          <CategoryTemplateManager />
+        </div>
+
+        {/* Project Templates */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">
+            Project Templates
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Whole project setups to start new projects from
+          </p>
+          <ProjectTemplateManager />
+        </div>
+
+        {/* Tags */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">
+            Tags
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Deleting a tag removes it from every session that has it
+          </p>
+          <TagManager />
+        </div>
+
         {/* Notification Settings */}
         <div>
           <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
@@ -261,6 +340,87 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
           </div>
         </div>
 
+        {/* Data Settings */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
+            Data
+          </h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Keep Deleted Items (days)
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="365"
+              value={formData.trashRetentionDays}
+              onChange={(e) =>
+                handleInputChange(
+                  "trashRetentionDays",
+                  parseInt(e.target.value)
+                )
+              }
+              className="input"
+            />
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Items in the trash are deleted permanently after this long
+            </p>
+          </div>
+
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Suggest Archiving After (weeks)
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="52"
+              value={formData.archiveSuggestionWeeks}
+              onChange={(e) =>
+                handleInputChange(
+                  "archiveSuggestionWeeks",
+                  parseInt(e.target.value)
+                )
+              }
+              className="input"
+            />
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Active projects with no sessions for this long are suggested for
+              archiving
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between mt-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Check Data on Startup
+              </label>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Look for broken or orphaned data each time the app loads
+              </p>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.integrityCheckOnStartup}
+                onChange={(e) =>
+                  handleInputChange("integrityCheckOnStartup", e.target.checked)
+                }
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 dark:bg-gray-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-400 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600 dark:peer-checked:bg-blue-500"></div>
+            </label>
+          </div>
+
+          <div className="mt-4">
+            <IntegrityChecker />
+          </div>
+
+          <div className="mt-4">
+            <BackupRestore />
+          </div>
+        </div>
+
         {/* Development Tools */}
         {import.meta.env.DEV && (
           <div>
@@ -285,7 +445,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
 
         <div className="flex space-x-3">
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="btn btn-secondary"
             disabled={isLoading}
           >
@@ -0,0 +1,136 @@
+import React, { useState } from "react";
+import { Check, Edit, Trash2, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { useTagStore } from "../stores/tagStore";
+import { useTimerStore } from "../stores/timerStore";
+
+// Rename and remove tags; new ones are made wherever sessions are tagged
+const TagManager: React.FC = () => {
+  const { tags, updateTag, deleteTag } = useTagStore();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+
+  const handleRenameTag = async (tagId: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (
+      tags.some(
+        (tag) =>
+          tag.id !== tagId && tag.name.toLowerCase() === trimmed.toLowerCase()
+      )
+    ) {
+      toast.error("A tag with that name already exists");
+      return;
+    }
+
+    try {
+      await updateTag(tagId, { name: trimmed });
+      setEditingId(null);
+    } catch (error) {
+      console.error("Error renaming tag:", error);
+      toast.error("Failed to rename tag");
+    }
+  };
+
+  const handleDeleteTag = async (tagId: string) => {
+    try {
+      await deleteTag(tagId);
+      // The running session should not be saved with a tag that is gone
+      const { tagIds, setTags } = useTimerStore.getState();
+      if (tagIds.includes(tagId)) {
+        setTags(tagIds.filter((id) => id !== tagId));
+      }
+      toast.success("Tag deleted");
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      toast.error("Failed to delete tag");
+    }
+  };
+
+  if (tags.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No tags yet. Add them from the timer or when editing a session.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {tags.map((tag) => (
+        <div
+          key={tag.id}
+          className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded-lg"
+        >
+          <div className="flex items-center space-x-2 min-w-0 flex-1">
+            <div
+              className="w-3 h-3 rounded-full flex-shrink-0"
+              style={{ backgroundColor: tag.color }}
+            />
+            {editingId === tag.id ? (
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleRenameTag(tag.id);
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                className="input py-1 text-sm"
+                aria-label="Tag name"
+                autoFocus
+              />
+            ) : (
+              <span className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                #{tag.name}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center space-x-1 ml-2">
+            {editingId === tag.id ? (
+              <>
+                <button
+                  onClick={() => handleRenameTag(tag.id)}
+                  className="p-1 text-gray-400 hover:text-green-600 dark:hover:text-green-400"
+                  aria-label="Save tag name"
+                >
+                  <Check size={16} />
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  aria-label="Cancel rename"
+                >
+                  <X size={16} />
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => {
+                    setEditingId(tag.id);
+                    setName(tag.name);
+                  }}
+                  className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  aria-label={`Rename tag ${tag.name}`}
+                >
+                  <Edit size={16} />
+                </button>
+                <button
+                  onClick={() => handleDeleteTag(tag.id)}
+                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label={`Delete tag ${tag.name}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TagManager;
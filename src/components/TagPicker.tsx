@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { useTagStore } from "../stores/tagStore";
+
+// New tags take the next color in turn
+const TAG_COLORS = [
+  "#3b82f6",
+  "#8b5cf6",
+  "#06b6d4",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#ec4899",
+  "#6366f1",
+];
+
+interface TagPickerProps {
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  label?: string;
+}
+
+// Toggle tags on a session, or create a new one by name. Tags cut across
+// projects and categories.
+const TagPicker: React.FC<TagPickerProps> = ({
+  selectedIds,
+  onChange,
+  label = "Tags",
+}) => {
+  const { tags, createTag } = useTagStore();
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleToggle = (tagId: string) => {
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter((id) => id !== tagId)
+        : [...selectedIds, tagId]
+    );
+  };
+
+  const handleCreateTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    // Typing an existing name just selects that tag
+    const existing = tags.find(
+      (tag) => tag.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    try {
+      const tag =
+        existing ??
+        (await createTag({
+          name: trimmed,
+          color: TAG_COLORS[tags.length % TAG_COLORS.length],
+        }));
+      if (!selectedIds.includes(tag.id)) {
+        onChange([...selectedIds, tag.id]);
+      }
+      setName("");
+      setIsAdding(false);
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      toast.error("Failed to create tag");
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label}
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {tags.map((tag) => {
+          const isSelected = selectedIds.includes(tag.id);
+          return (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => handleToggle(tag.id)}
+              className={`px-2 py-1 rounded-full text-xs font-medium border transition-colors ${
+                isSelected
+                  ? "text-white border-transparent"
+                  : "text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+              style={isSelected ? { backgroundColor: tag.color } : undefined}
+              aria-pressed={isSelected}
+            >
+              #{tag.name}
+            </button>
+          );
+        })}
+        {tags.length === 0 && !isAdding && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            No tags yet
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => setIsAdding(!isAdding)}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label={isAdding ? "Cancel new tag" : "New tag"}
+        >
+          {isAdding ? <X size={14} /> : <Plus size={14} />}
+        </button>
+      </div>
+
+      {isAdding && (
+        <form
+          onSubmit={handleCreateTag}
+          className="flex items-center space-x-2 mt-2"
+        >
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="input"
+            placeholder="e.g. bugfix"
+            aria-label="Tag name"
+            autoFocus
+          />
+          <button type="submit" className="btn btn-primary">
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { useProjectStore } from "../stores/projectStore";
+import { useTaskStore } from "../stores/taskStore";
+import { useTimerStore } from "../stores/timerStore";
+
+// Pick the task the next session is stamped with, from the open tasks in the
+// selected category. Locked while a session is under way.
+const TaskPicker: React.FC = () => {
+  const { currentProject, currentCategory } = useProjectStore();
+  const { tasks, currentTask, createTask, setCurrentTask } = useTaskStore();
+  const { sessionStartTime, currentTask: sessionTask } = useTimerStore();
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [title, setTitle] = useState("");
+  const [estimate, setEstimate] = useState(1);
+
+  if (!currentProject || !currentCategory) {
+    return null;
+  }
+
+  const openTasks = tasks.filter(
+    (task) =>
+      task.projectId === currentProject.id &&
+      task.categoryId === currentCategory.id &&
+      !task.done
+  );
+  const isLocked = !!sessionStartTime;
+  const selectedTaskId = isLocked ? sessionTask?.id : currentTask?.id;
+
+  const handleSelect = (taskId: string) => {
+    setCurrentTask(openTasks.find((task) => task.id === taskId) || null);
+  };
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setTitle("");
+    setEstimate(1);
+  };
+
+  const handleCreateTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    try {
+      const task = await createTask({
+        projectId: currentProject.id,
+        categoryId: currentCategory.id,
+        title: title.trim(),
+        status: "todo",
+        estimatedPomodoros: Math.max(1, estimate),
+        done: false,
+      });
+      if (!isLocked) {
+        setCurrentTask(task);
+      }
+      resetForm();
+    } catch (error) {
+      console.error("Error creating task:", error);
+      toast.error("Failed to create task");
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Task
+      </label>
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={selectedTaskId || ""}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={isLocked}
+          className="input disabled:opacity-50"
+          aria-label="Active task"
+          title={
+            isLocked
+              ? "Finish or clear the current session to switch tasks"
+              : undefined
+          }
+        >
+          <option value="">No task</option>
+          {isLocked &&
+            sessionTask &&
+            !openTasks.some((task) => task.id === sessionTask.id) && (
+              <option value={sessionTask.id}>{sessionTask.title}</option>
+            )}
+          {openTasks.map((task) => (
+            <option key={task.id} value={task.id}>
+              {task.title} ({task.estimatedPomodoros} 🍅)
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsAdding(!isAdding)}
+          className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label={isAdding ? "Cancel new task" : "New task"}
+        >
+          {isAdding ? <X size={16} /> : <Plus size={16} />}
+        </button>
+      </div>
+
+      {isAdding && (
+        <form
+          onSubmit={handleCreateTask}
+          className="flex items-center space-x-2 mt-2"
+        >
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="input"
+            placeholder="What are you working on?"
+            aria-label="Task title"
+            autoFocus
+          />
+          <input
+            type="number"
+            min="1"
+            max="50"
+            value={estimate}
+            onChange={(e) => setEstimate(parseInt(e.target.value) || 1)}
+            className="input w-20"
+            aria-label="Estimated pomodoros"
+            title="Estimated pomodoros"
+          />
+          <button type="submit" className="btn btn-primary">
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TaskPicker;
@@ -17,11 +17,16 @@ import {
   Edit3,
   Download,
   Share2,
+  Layers,
+  Watch,
+  Hand,
 } from "lucide-react";
 import { gsap } from "gsap";
 import { useTimerStore } from "../stores/timerStore";
 import { useSettingsStore } from "../stores/settingsStore";
 import { useProjectStore } from "../stores/projectStore";
+import { useInterruptionStore } from "../stores/interruptionStore";
+import { useTaskStore } from "../stores/taskStore";
 import {
   progressBarFill,
   scaleIn,
@@ -31,6 +36,23 @@ import {
 } from "../utils/animations";
 import Modal from "./Modal";
 import FullscreenTimer from "./FullscreenTimer";
+import InterruptionCapture from "./InterruptionCapture";
+import TaskPicker from "./TaskPicker";
+import TagPicker from "./TagPicker";
+import { subscribeToTimerCompletion } from "../services/timerEngine";
+import { isTimerLeader, subscribeToLeadership } from "../services/timerSync";
+import { formatClock } from "../utils/performance";
+import {
+  getPresets,
+  getActivePreset,
+  getCycleStep,
+  getWorkStepsUntilLongBreak,
+} from "../utils/presets";
+import {
+  resolveTimerSettings,
+  hasCycleOverrides,
+  haveSameOverrides,
+} from "../utils/timerSettings";
 import toast from "react-hot-toast";
 
 const Timer: React.FC = () => {
@@ -41,27 +63,35 @@ const Timer: React.FC = () => {
     totalTime,
     currentProject,
     currentCategory,
+    currentTask,
     completedPomodoros,
     sessionStartTime,
+    sessionId,
+    isOvertime,
+    overtime,
+    cycleIndex,
+    tagIds,
     startTimer,
     pauseTimer,
     resetTimer,
     setMode,
-    tick,
-    completeSession,
+    setCycleStep,
     saveCurrentSession,
-    incrementPomodoros,
     setProject,
     setCategory,
+    setTask,
+    setTags,
     updateTimeLeft,
     updateTotalTime,
     clearCurrentSession,
+    finishSession,
   } = useTimerStore();
 
-  const { settings } = useSettingsStore();
+  const { settings, updateSettings } = useSettingsStore();
   const { currentProject: selectedProject, currentCategory: selectedCategory } =
     useProjectStore();
-  const intervalRef = useRef<number | null>(null);
+  const { interruptions } = useInterruptionStore();
+  const { currentTask: selectedTask } = useTaskStore();
 
   // GSAP refs
   const timerDisplayRef = useRef<HTMLDivElement>(null);
@@ -78,25 +108,48 @@ const Timer: React.FC = () => {
   const [isSavingSession, setIsSavingSession] = useState(false);
   const [showSessionInfo, setShowSessionInfo] = useState(false);
   const [showQuickActions, setShowQuickActions] = useState(false);
+  const [isCapturingInterruption, setIsCapturingInterruption] = useState(false);
+  const [isLeader, setIsLeader] = useState(isTimerLeader);
 
   // Format time display
-  const formatTime = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-
-    if (hours > 0) {
-      return `${hours.toString().padStart(2, "0")}:${minutes
-        .toString()
-        .padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
-    }
-    return `${minutes.toString().padStart(2, "0")}:${secs
-      .toString()
-      .padStart(2, "0")}`;
-  };
+  const formatTime = formatClock;
+
+  // Active preset and where the timer is in its cycle. A project with its own
+  // durations runs those instead.
+  const timerSettings = resolveTimerSettings(settings, currentProject);
+  const isProjectCycle = hasCycleOverrides(currentProject);
+  const presets = getPresets(settings);
+  const activePreset = getActivePreset(timerSettings);
+  const stepCount = activePreset.steps.length;
+  const nextStep = getCycleStep(activePreset, cycleIndex + 1);
+  const workStepsUntilLongBreak = getWorkStepsUntilLongBreak(
+    activePreset,
+    cycleIndex
+  );
+
+  // The stopwatch counts up from zero with nothing planned
+  const isStopwatch = currentMode === "stopwatch";
+  const displayTime = isStopwatch
+    ? formatTime(overtime)
+    : isOvertime
+    ? `+${formatTime(overtime)}`
+    : formatTime(timeLeft);
+
+  // Archived projects keep their history but take no new sessions
+  const isTimingLocked =
+    !sessionStartTime && currentProject?.status === "archived";
+
+  // Interruptions are logged against a running work session
+  const canLogInterruption = isRunning && currentMode === "work";
+  const sessionInterruptionCount = sessionId
+    ? interruptions.filter((i) => i.sessionId === sessionId).length
+    : 0;
 
   // Memoized calculations
-  const progress = useMemo(() => ((totalTime - timeLeft) / totalTime) * 100, [totalTime, timeLeft]);
+  const progress = useMemo(
+    () => (totalTime > 0 ? ((totalTime - timeLeft) / totalTime) * 100 : 0),
+    [totalTime, timeLeft]
+  );
   
   const sessionDuration = useMemo(() => {
     if (!sessionStartTime) return 0;
@@ -105,6 +158,8 @@ const Timer: React.FC = () => {
   }, [sessionStartTime, isRunning]);
 
   const getModeLabel = () => {
+    if (isOvertime && !isStopwatch) return "Overtime";
+
     switch (currentMode) {
       case "work":
         return "Work Time";
@@ -112,6 +167,8 @@ const Timer: React.FC = () => {
         return "Short Break";
       case "long_break":
         return "Long Break";
+      case "stopwatch":
+        return "Stopwatch";
       default:
         return "Work Time";
     }
@@ -125,6 +182,8 @@ const Timer: React.FC = () => {
         return <Coffee className="w-5 h-5" />;
       case "long_break":
         return <Zap className="w-5 h-5" />;
+      case "stopwatch":
+        return <Watch className="w-5 h-5" />;
       default:
         return <Target className="w-5 h-5" />;
     }
@@ -138,83 +197,13 @@ const Timer: React.FC = () => {
         return "from-green-500 to-green-600";
       case "long_break":
         return "from-purple-500 to-purple-600";
+      case "stopwatch":
+        return "from-teal-500 to-teal-600";
       default:
         return "from-blue-500 to-blue-600";
     }
   };
 
-  const handleTimerComplete = async () => {
-    // Animate completion
-    if (timerDisplayRef.current) {
-      gsap.to(timerDisplayRef.current, {
-        scale: 1.1,
-        duration: 0.3,
-        yoyo: true,
-        repeat: 1,
-        ease: "back.out(1.7)",
-      });
-    }
-
-    await completeSession();
-
-    if (currentMode === "work") {
-      incrementPomodoros();
-
-      // Check if it's time for a long break
-      const shouldTakeLongBreak =
-        (completedPomodoros + 1) % settings.longBreakInterval === 0;
-
-      if (shouldTakeLongBreak) {
-        setMode("long_break");
-        toast.success("Work session complete! Time for a long break.", {
-          icon: "🎉",
-          duration: 4000,
-        });
-      } else {
-        setMode("short_break");
-        toast.success("Work session complete! Time for a short break.", {
-          icon: "☕",
-          duration: 4000,
-        });
-      }
-
-      // Auto-start break if enabled
-      if (settings.autoStartBreaks) {
-        setTimeout(() => {
-          startTimer();
-        }, 1000);
-      }
-    } else {
-      setMode("work");
-      toast.success("Break complete! Ready to work?", {
-        icon: "💪",
-        duration: 4000,
-      });
-    }
-
-    // Play notification sound
-    if (settings.audioEnabled) {
-      playNotificationSound();
-    }
-
-    // Show browser notification
-    if (settings.notificationsEnabled && "Notification" in window) {
-      if (Notification.permission === "granted") {
-        const message =
-          currentMode === "work"
-            ? "Work session complete! Time for a break."
-            : "Break complete! Ready to work?";
-
-        new Notification("Sink Your Time", {
-          body: message,
-          icon: "/favicon.ico",
-        });
-      } else if (Notification.permission === "default") {
-        Notification.requestPermission();
-      }
-    }
-  };
-
   const handleSaveSession = async () => {
     if (!sessionStartTime) {
       toast.error("No active session to save");
@@ -240,6 +229,20 @@ const Timer: React.FC = () => {
     }
   };
 
+  const handlePresetChange = async (presetId: string) => {
+    try {
+      await updateSettings({ activePresetId: presetId });
+      setCycleStep(0);
+    } catch (error) {
+      console.error("Error switching preset:", error);
+      toast.error("Failed to switch preset");
+    }
+  };
+
+  const handleFinishSession = () => {
+    finishSession();
+  };
+
   const handleClearSession = () => {
     clearCurrentSession();
     toast.success("Session cleared", {
@@ -247,33 +250,6 @@ const Timer: React.FC = () => {
     });
   };
 
-  const playNotificationSound = () => {
-    try {
-      const audioContext = new (window.AudioContext ||
-        (window as any).webkitAudioContext)();
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-
-      oscillator.frequency.setValueAtTime(800, audioContext.currentTime);
-      oscillator.frequency.setValueAtTime(600, audioContext.currentTime + 0.1);
-      oscillator.frequency.setValueAtTime(800, audioContext.currentTime + 0.2);
-
-      gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(
-        0.01,
-        audioContext.currentTime + 0.3
-      );
-
-      oscillator.start(audioContext.currentTime);
-      oscillator.stop(audioContext.currentTime + 0.3);
-    } catch (error) {
-      console.error("Error playing notification sound:", error);
-    }
-  };
-
   // Initialize animations on mount
   useEffect(() => {
     if (timerDisplayRef.current) {
@@ -307,28 +283,38 @@ const Timer: React.FC = () => {
     }
   }, [isRunning]);
 
-  // Timer interval effect
+  // Celebrate a finished countdown; the timer engine handles the rest
   useEffect(() => {
-    if (isRunning && timeLeft > 0) {
-      intervalRef.current = window.setInterval(() => {
-        tick();
-      }, 1000);
-    } else if (timeLeft === 0 && isRunning) {
-      handleTimerComplete();
-    }
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+    return subscribeToTimerCompletion(() => {
+      if (timerDisplayRef.current) {
+        gsap.to(timerDisplayRef.current, {
+          scale: 1.1,
+          duration: 0.3,
+          yoyo: true,
+          repeat: 1,
+          ease: "back.out(1.7)",
+        });
       }
-    };
-  }, [isRunning, timeLeft]);
+    });
+  }, []);
+
+  useEffect(() => {
+    return subscribeToLeadership(setIsLeader);
+  }, []);
 
-  // Sync with project store
+  // Sync with project store. A session in progress keeps its project and
+  // category even while another project's page is open. Only the tab that
+  // owns the timer does this; otherwise two tabs on different projects would
+  // keep overwriting each other's selection.
   useEffect(() => {
+    if (sessionStartTime || !isLeader) return;
+
     if (
       selectedProject &&
-      (!currentProject || selectedProject.id !== currentProject.id)
+      (!currentProject ||
+        selectedProject.id !== currentProject.id ||
+        selectedProject.status !== currentProject.status ||
+        !haveSameOverrides(selectedProject, currentProject))
     ) {
       setProject(selectedProject);
     }
@@ -338,11 +324,39 @@ const Timer: React.FC = () => {
     ) {
       setCategory(selectedCategory);
     }
-  }, [selectedProject, selectedCategory, currentProject, currentCategory]);
+
+    // Only a task from the selected category applies
+    const task =
+      selectedTask && selectedTask.categoryId === selectedCategory?.id
+        ? selectedTask
+        : null;
+    if (task?.id !== currentTask?.id) {
+      setTask(task);
+    }
+  }, [
+    selectedProject,
+    selectedCategory,
+    selectedTask,
+    currentProject,
+    currentCategory,
+    currentTask,
+    sessionStartTime,
+    isLeader,
+  ]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
+      if (isCapturingInterruption) return;
+      // Leave keys typed into a form field alone
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement
+      ) {
+        return;
+      }
+
       if (e.code === "Space") {
         e.preventDefault();
         if (isRunning) {
@@ -359,6 +373,9 @@ const Timer: React.FC = () => {
         setIsFullscreen(false);
       } else if (e.code === "KeyF") {
         setIsFullscreen(!isFullscreen);
+      } else if (e.code === "KeyI" && canLogInterruption) {
+        e.preventDefault();
+        setIsCapturingInterruption(true);
       }
     };
 
@@ -367,6 +384,8 @@ const Timer: React.FC = () => {
   }, [
     isRunning,
     isFullscreen,
+    isCapturingInterruption,
+    canLogInterruption,
     sessionStartTime,
     currentProject,
     currentCategory,
@@ -404,7 +423,7 @@ const Timer: React.FC = () => {
 
   // Handle duration editing
   const handleDurationEdit = () => {
-    if (!isRunning) {
+    if (!isRunning && !isStopwatch) {
       setEditingMinutes(Math.floor(totalTime / 60));
       setIsEditingDuration(true);
     }
@@ -424,25 +443,45 @@ const Timer: React.FC = () => {
     setIsEditingDuration(false);
   };
 
+  const interruptionCapture = (
+    <InterruptionCapture
+      isOpen={isCapturingInterruption}
+      onClose={() => setIsCapturingInterruption(false)}
+    />
+  );
+
   // Fullscreen timer component
   if (isFullscreen) {
     return (
-      <FullscreenTimer
-        isOpen={isFullscreen}
-        onClose={() => setIsFullscreen(false)}
-        timeLeft={timeLeft}
-        isRunning={isRunning}
-        currentProject={currentProject}
-        currentCategory={currentCategory}
-        sessionStartTime={sessionStartTime}
-        onStart={startTimer}
-        onPause={pauseTimer}
-        onReset={resetTimer}
-        onSaveSession={handleSaveSession}
-        onDurationEdit={handleDurationEdit}
-        formatTime={formatTime}
-        getModeLabel={getModeLabel}
-      />
+      <>
+        <FullscreenTimer
+          isOpen={isFullscreen}
+          onClose={() => setIsFullscreen(false)}
+          timeLeft={timeLeft}
+          isOvertime={isOvertime}
+          isStopwatch={isStopwatch}
+          overtime={overtime}
+          isRunning={isRunning}
+          currentProject={currentProject}
+          currentCategory={currentCategory}
+          currentTask={currentTask}
+          sessionStartTime={sessionStartTime}
+          onStart={startTimer}
+          onPause={pauseTimer}
+          onReset={resetTimer}
+          onSaveSession={handleSaveSession}
+          onFinish={handleFinishSession}
+          onLogInterruption={
+            canLogInterruption
+              ? () => setIsCapturingInterruption(true)
+              : undefined
+          }
+          onDurationEdit={handleDurationEdit}
+          formatTime={formatTime}
+          getModeLabel={getModeLabel}
+        />
+        {interruptionCapture}
+      </>
     );
   }
 
@@ -481,7 +520,7 @@ const Timer: React.FC = () => {
           
           {showSessionInfo && (
             <div className="px-6 py-4 space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
                   <p className="text-sm text-gray-600 dark:text-gray-400">Session Duration</p>
                   <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">
@@ -489,9 +528,23 @@ const Timer: React.FC = () => {
                   </p>
                 </div>
                 <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                  <p className="text-sm text-gray-600 dark:text-gray-400">Time Remaining</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {isStopwatch
+                      ? "Elapsed"
+                      : isOvertime
+                      ? "Overtime"
+                      : "Time Remaining"}
+                  </p>
                   <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-                    {formatTime(timeLeft)}
+                    {displayTime}
+                  </p>
+                </div>
+                <div className="text-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Interruptions
+                  </p>
+                  <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                    {sessionInterruptionCount}
                   </p>
                 </div>
               </div>
@@ -544,6 +597,18 @@ const Timer: React.FC = () => {
             )}
           </div>
         )}
+        <div className="w-full max-w-xs mx-auto text-left">
+          <TaskPicker />
+          <div className="mt-3">
+            <TagPicker selectedIds={tagIds} onChange={setTags} />
+          </div>
+        </div>
+        {isTimingLocked && (
+          <p className="mt-3 text-sm text-amber-600 dark:text-amber-400">
+            This project is archived. Unarchive it from the projects page to
+            track time.
+          </p>
+        )}
       </div>
 
       {/* Timer Display */}
@@ -551,10 +616,14 @@ const Timer: React.FC = () => {
         <div className="text-center">
           <div
             ref={timerDisplayRef}
-            className="timer-digit cursor-pointer hover:opacity-80 transition-opacity group"
+            className={`timer-digit cursor-pointer hover:opacity-80 transition-opacity group ${
+              isOvertime && !isStopwatch
+                ? "text-amber-500 dark:text-amber-400"
+                : ""
+            }`}
             onDoubleClick={handleDurationEdit}
           >
-            {formatTime(timeLeft)}
+            {displayTime}
             <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
               <Edit3 className="w-8 h-8 text-gray-400" />
             </div>
@@ -580,19 +649,21 @@ const Timer: React.FC = () => {
       </div>
 
       {/* Progress Bar */}
-      <div className="w-full max-w-md mb-8">
-        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 overflow-hidden">
-          <div
-            ref={progressBarRef}
-            className={`h-3 rounded-full bg-gradient-to-r ${getModeColor()} transition-all duration-300`}
-            style={{ width: "0%" }}
-          />
-        </div>
-        <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400 mt-2">
-          <span>{formatTime(totalTime - timeLeft)}</span>
-          <span>{formatTime(totalTime)}</span>
+      {!isStopwatch && (
+        <div className="w-full max-w-md mb-8">
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 overflow-hidden">
+            <div
+              ref={progressBarRef}
+              className={`h-3 rounded-full bg-gradient-to-r ${getModeColor()} transition-all duration-300`}
+              style={{ width: "0%" }}
+            />
+          </div>
+          <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400 mt-2">
+            <span>{formatTime(totalTime - timeLeft + overtime)}</span>
+            <span>{formatTime(totalTime)}</span>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Controls */}
       <div ref={controlsRef} className="flex items-center space-x-4 mb-8">
@@ -607,13 +678,34 @@ const Timer: React.FC = () => {
         ) : (
           <button
             onClick={handleStartClick}
-            className="btn btn-primary flex items-center space-x-2 bg-green-600 hover:bg-green-700"
+            disabled={isTimingLocked}
+            className="btn btn-primary flex items-center space-x-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Play size={20} />
             <span>Start</span>
           </button>
         )}
 
+        {isOvertime && sessionStartTime && (
+          <button
+            onClick={handleFinishSession}
+            className="btn btn-primary flex items-center space-x-2 bg-amber-600 hover:bg-amber-700"
+          >
+            <CheckCircle size={20} />
+            <span>Finish</span>
+          </button>
+        )}
+
+        {canLogInterruption && (
+          <button
+            onClick={() => setIsCapturingInterruption(true)}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <Hand size={20} />
+            <span>Interruption</span>
+          </button>
+        )}
+
         <button
           onClick={handleResetClick}
           className="btn btn-secondary flex items-center space-x-2"
@@ -669,6 +761,56 @@ const Timer: React.FC = () => {
           <Zap size={16} />
           <span>Long Break</span>
         </button>
+        <button
+          onClick={() => setMode("stopwatch")}
+          className={`px-6 py-3 rounded-lg text-sm font-medium transition-all duration-200 flex items-center space-x-2 ${
+            currentMode === "stopwatch"
+              ? "bg-teal-600 text-white shadow-lg"
+              : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          }`}
+        >
+          <Watch size={16} />
+          <span>Stopwatch</span>
+        </button>
+      </div>
+
+      {/* Preset Switcher */}
+      <div className="w-full max-w-md mb-8 flex items-center justify-between space-x-3">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Layers className="w-4 h-4 text-gray-500 dark:text-gray-400 flex-shrink-0" />
+          <select
+            value={isProjectCycle ? "" : activePreset.id}
+            onChange={(e) => handlePresetChange(e.target.value)}
+            disabled={!!sessionStartTime || isProjectCycle}
+            className="input py-1 text-sm"
+            aria-label="Timer preset"
+            title={
+              isProjectCycle
+                ? "This project sets its own durations"
+                : sessionStartTime
+                ? "Finish or clear the current session to switch presets"
+                : undefined
+            }
+          >
+            {isProjectCycle && <option value="">Project durations</option>}
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {!isStopwatch && (
+          <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+            Step {(cycleIndex % stepCount) + 1} of {stepCount} · Next:{" "}
+            {nextStep.mode === "work"
+              ? "Work"
+              : nextStep.mode === "short_break"
+              ? "Break"
+              : "Long Break"}{" "}
+            {nextStep.duration}m
+          </span>
+        )}
       </div>
 
       {/* Pomodoro Counter */}
@@ -680,9 +822,13 @@ const Timer: React.FC = () => {
           <div className="text-3xl font-bold text-blue-600 dark:text-blue-400">
             {completedPomodoros}
           </div>
-          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            Next long break after {settings.longBreakInterval - (completedPomodoros % settings.longBreakInterval)} more
-          </div>
+          {workStepsUntilLongBreak !== null && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {workStepsUntilLongBreak > 0
+                ? `Next long break after ${workStepsUntilLongBreak} more`
+                : "Long break time"}
+            </div>
+          )}
         </div>
       </div>
 
@@ -753,6 +899,12 @@ const Timer: React.FC = () => {
             </kbd>
             <span>exit fullscreen</span>
           </div>
+          <div className="flex items-center space-x-2">
+            <kbd className="px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded text-xs">
+              I
+            </kbd>
+            <span>log interruption</span>
+          </div>
         </div>
         <p className="text-xs">Double-click timer to edit duration</p>
       </div>
@@ -790,6 +942,8 @@ const Timer: React.FC = () => {
           </button>
         </div>
       </Modal>
+
+      {interruptionCapture}
     </div>
   );
 };
@@ -0,0 +1,318 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useProjectStore } from "../stores/projectStore";
+import { useSettingsStore } from "../stores/settingsStore";
+import { useTaskStore } from "../stores/taskStore";
+import { useInterruptionStore } from "../stores/interruptionStore";
+import {
+  categoryService,
+  projectService,
+  sessionService,
+  trashService,
+} from "../services/database";
+import { subscribeToSessionChanges } from "../services/sessionEvents";
+import { formatDuration } from "../utils/performance";
+import type { TrashContents } from "../types";
+
+const EMPTY_TRASH: TrashContents = {
+  projects: [],
+  categories: [],
+  sessions: [],
+};
+
+// Deleted projects, categories and sessions, until they are restored or purged
+const Trash: React.FC = () => {
+  const { projects, loadProjects } = useProjectStore();
+  const { settings } = useSettingsStore();
+  const { loadTasks } = useTaskStore();
+  const { loadInterruptions } = useInterruptionStore();
+  const [trash, setTrash] = useState<TrashContents>(EMPTY_TRASH);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await trashService.getContents());
+    } catch (error) {
+      console.error("Error loading trash:", error);
+      toast.error("Failed to load trash");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+    return subscribeToSessionChanges(loadTrash);
+  }, [loadTrash]);
+
+  const isEmpty =
+    trash.projects.length === 0 &&
+    trash.categories.length === 0 &&
+    trash.sessions.length === 0;
+
+  const getProjectName = (projectId: string) =>
+    projects.find((p) => p.id === projectId)?.name || "Unknown project";
+
+  const getCategoryName = (projectId: string, categoryId: string) =>
+    [
+      ...(projects.find((p) => p.id === projectId)?.categories ?? []),
+      ...trash.categories,
+    ].find((c) => c.id === categoryId)?.name || "Unknown category";
+
+  // Run a restore or purge, then refresh the trash and the project list
+  const handleAction = async (
+    action: () => Promise<void>,
+    successMessage: string,
+    failureMessage: string
+  ) => {
+    try {
+      await action();
+      toast.success(successMessage);
+    } catch (error) {
+      console.error("Error updating trash:", error);
+      toast.error(failureMessage);
+    }
+    await Promise.all([
+      loadTrash(),
+      loadProjects(),
+      loadTasks(),
+      loadInterruptions(),
+    ]);
+  };
+
+  const handlePurge = (
+    name: string,
+    purge: () => Promise<void>,
+    successMessage: string
+  ) => {
+    if (!window.confirm(`Permanently delete ${name}? This can't be undone.`)) {
+      return;
+    }
+    handleAction(purge, successMessage, "Failed to delete permanently");
+  };
+
+  const handleEmptyTrash = () => {
+    if (
+      !window.confirm(
+        "Permanently delete everything in the trash? This can't be undone."
+      )
+    ) {
+      return;
+    }
+    handleAction(
+      () => trashService.purgeExpired(0),
+      "Trash emptied",
+      "Failed to empty trash"
+    );
+  };
+
+  const formatDeletedAt = (deletedAt?: Date) =>
+    deletedAt ? `Deleted ${new Date(deletedAt).toLocaleString()}` : "";
+
+  const renderActions = (
+    label: string,
+    onRestore: () => void,
+    onPurge: () => void
+  ) => (
+    <div className="flex items-center space-x-2 ml-4">
+      <button
+        onClick={onRestore}
+        className="btn btn-secondary flex items-center space-x-1 text-sm"
+        aria-label={`Restore ${label}`}
+      >
+        <RotateCcw size={14} />
+        <span>Restore</span>
+      </button>
+      <button
+        onClick={onPurge}
+        className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+        aria-label={`Delete ${label} permanently`}
+        title="Delete permanently"
+      >
+        <Trash2 size={16} />
+      </button>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Trash
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Deleted items are removed for good after{" "}
+            {settings.trashRetentionDays} day
+            {settings.trashRetentionDays !== 1 ? "s" : ""}.
+          </p>
+        </div>
+        {!isEmpty && (
+          <button
+            onClick={handleEmptyTrash}
+            className="btn btn-danger flex items-center space-x-2"
+          >
+            <Trash2 size={16} />
+            <span>Empty Trash</span>
+          </button>
+        )}
+      </div>
+
+      {isEmpty ? (
+        <div className="text-center py-16">
+          <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Trash2 className="w-8 h-8 text-gray-400 dark:text-gray-500" />
+          </div>
+          <p className="text-gray-500 dark:text-gray-400">
+            The trash is empty.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {trash.projects.length > 0 && (
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                Projects
+              </h2>
+              <div className="space-y-3">
+                {trash.projects.map((project) => (
+                  <div
+                    key={project.id}
+                    className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <div
+                        className="w-4 h-4 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: project.color }}
+                      />
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                          {project.name}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {project.categories.length} categor
+                          {project.categories.length !== 1 ? "ies" : "y"} ·{" "}
+                          {formatDeletedAt(project.deletedAt)}
+                        </p>
+                      </div>
+                    </div>
+                    {renderActions(
+                      project.name,
+                      () =>
+                        handleAction(
+                          () => projectService.restore(project.id),
+                          `Project "${project.name}" restored`,
+                          "Failed to restore project"
+                        ),
+                      () =>
+                        handlePurge(
+                          `"${project.name}" and all its sessions`,
+                          () => projectService.purge(project.id),
+                          "Project deleted permanently"
+                        )
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {trash.categories.length > 0 && (
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                Categories
+              </h2>
+              <div className="space-y-3">
+                {trash.categories.map((category) => (
+                  <div
+                    key={category.id}
+                    className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                        {category.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {getProjectName(category.projectId)} ·{" "}
+                        {formatDeletedAt(category.deletedAt)}
+                      </p>
+                    </div>
+                    {renderActions(
+                      category.name,
+                      () =>
+                        handleAction(
+                          () => categoryService.restore(category.id),
+                          `Category "${category.name}" restored`,
+                          "Failed to restore category"
+                        ),
+                      () =>
+                        handlePurge(
+                          `"${category.name}" and the sessions, tasks and interruptions recorded under it`,
+                          () => categoryService.purge(category.id),
+                          "Category deleted permanently"
+                        )
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {trash.sessions.length > 0 && (
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                Sessions
+              </h2>
+              <div className="space-y-3">
+                {trash.sessions.map((session) => (
+                  <div
+                    key={session.id}
+                    className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                        {getProjectName(session.projectId)} ·{" "}
+                        {getCategoryName(session.projectId, session.categoryId)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(session.startTime).toLocaleString()} ·{" "}
+                        {formatDuration(session.actualDuration)} ·{" "}
+                        {formatDeletedAt(session.deletedAt)}
+                      </p>
+                    </div>
+                    {renderActions(
+                      "session",
+                      () =>
+                        handleAction(
+                          () => sessionService.restore(session.id),
+                          "Session restored",
+                          "Failed to restore session"
+                        ),
+                      () =>
+                        handlePurge(
+                          "this session",
+                          () => sessionService.purge(session.id),
+                          "Session deleted permanently"
+                        )
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
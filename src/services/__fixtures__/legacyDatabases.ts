@@ -0,0 +1,168 @@
+// Snapshots of databases as older versions of the app left them, for
+// checking that every migration still brings them up to date
+
+export interface DatabaseFixture {
+  version: number;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+const createdAt = new Date(2024, 0, 1, 9, 0);
+
+// Version 1: every project row carries its own copy of its categories. The
+// "writing" category was also saved to the categories table; "review" only
+// exists on the project row.
+export const VERSION_1_DATABASE: DatabaseFixture = {
+  version: 1,
+  tables: {
+    projects: [
+      {
+        id: "project-1",
+        name: "Thesis",
+        color: "#3b82f6",
+        status: "active",
+        createdAt,
+        updatedAt: createdAt,
+        categories: [
+          { id: "writing", name: "Writing", projectId: "project-1" },
+          { id: "review", name: "Review", projectId: "project-1" },
+        ],
+      },
+    ],
+    categories: [{ id: "writing", name: "Writing", projectId: "project-1" }],
+    timerSessions: [
+      {
+        id: "session-1",
+        projectId: "project-1",
+        categoryId: "writing",
+        type: "work",
+        plannedDuration: 25 * 60 * 1000,
+        actualDuration: 25 * 60 * 1000,
+        startTime: new Date(2024, 0, 2, 9, 0),
+        endTime: new Date(2024, 0, 2, 9, 25),
+        completed: true,
+      },
+      {
+        id: "session-2",
+        projectId: "project-1",
+        categoryId: "review",
+        type: "work",
+        plannedDuration: 25 * 60 * 1000,
+        actualDuration: 10 * 60 * 1000,
+        startTime: new Date(2024, 0, 2, 10, 0),
+        endTime: new Date(2024, 0, 2, 10, 10),
+        completed: false,
+      },
+    ],
+    userSettings: [{ id: "default", workDuration: "25", theme: "dark" }],
+  },
+};
+
+// Version 5: tasks, tags and interruptions exist, project rows still carry
+// categories, and one session is in the trash
+export const VERSION_5_DATABASE: DatabaseFixture = {
+  version: 5,
+  tables: {
+    projects: [
+      {
+        id: "project-1",
+        name: "Website",
+        color: "#10b981",
+        status: "active",
+        createdAt,
+        updatedAt: createdAt,
+        categories: [
+          { id: "design", name: "Design", projectId: "project-1" },
+          { id: "build", name: "Build", projectId: "project-1" },
+        ],
+      },
+      {
+        id: "project-2",
+        name: "Admin",
+        color: "#f59e0b",
+        status: "archived",
+        createdAt,
+        updatedAt: createdAt,
+        categories: [{ id: "email", name: "Email", projectId: "project-2" }],
+      },
+    ],
+    categories: [
+      { id: "design", name: "Design", projectId: "project-1" },
+      { id: "build", name: "Build", projectId: "project-1" },
+    ],
+    timerSessions: [
+      {
+        id: "session-1",
+        projectId: "project-1",
+        categoryId: "design",
+        type: "work",
+        plannedDuration: 25 * 60 * 1000,
+        actualDuration: 25 * 60 * 1000,
+        startTime: new Date(2024, 2, 4, 9, 0),
+        endTime: new Date(2024, 2, 4, 9, 25),
+        completed: true,
+        tagIds: ["tag-1"],
+      },
+      {
+        id: "session-2",
+        projectId: "project-1",
+        categoryId: "design",
+        type: "work",
+        plannedDuration: 25 * 60 * 1000,
+        actualDuration: 20 * 60 * 1000,
+        startTime: new Date(2024, 2, 4, 14, 0),
+        endTime: new Date(2024, 2, 4, 14, 20),
+        completed: false,
+        taskId: "task-1",
+      },
+      {
+        id: "session-3",
+        projectId: "project-2",
+        categoryId: "email",
+        type: "work",
+        plannedDuration: 25 * 60 * 1000,
+        actualDuration: 25 * 60 * 1000,
+        startTime: new Date(2024, 2, 5, 9, 0),
+        endTime: new Date(2024, 2, 5, 9, 25),
+        completed: true,
+      },
+      {
+        id: "session-4",
+        projectId: "project-1",
+        categoryId: "build",
+        type: "work",
+        plannedDuration: 25 * 60 * 1000,
+        actualDuration: 25 * 60 * 1000,
+        startTime: new Date(2024, 2, 5, 11, 0),
+        endTime: new Date(2024, 2, 5, 11, 25),
+        completed: true,
+        deletedAt: new Date(2024, 2, 6),
+      },
+    ],
+    tasks: [
+      {
+        id: "task-1",
+        projectId: "project-1",
+        categoryId: "design",
+        title: "Landing page",
+        status: "in_progress",
+        estimatedPomodoros: 4,
+        done: false,
+        createdAt,
+        updatedAt: createdAt,
+      },
+    ],
+    tags: [{ id: "tag-1", name: "client", color: "#ef4444", createdAt }],
+    interruptions: [
+      {
+        id: "interruption-1",
+        sessionId: "session-1",
+        projectId: "project-1",
+        categoryId: "design",
+        kind: "external",
+        reviewed: false,
+        createdAt,
+      },
+    ],
+    userSettings: [{ id: "default", workDuration: 30, theme: "light" }],
+  },
+};
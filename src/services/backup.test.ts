@@ -0,0 +1,253 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  BACKUP_FORMAT_VERSION,
+  BackupValidationError,
+  backupService,
+  type BackupFile,
+} from "./backup";
+import { db } from "./database";
+import { LATEST_VERSION } from "./migrations";
+import { useTimerStore } from "../stores/timerStore";
+import { DEFAULT_SETTINGS } from "../utils/settingsSchema";
+import type { Category, TimerSession } from "../types";
+
+const session = {
+  id: "session-1",
+  projectId: "project-1",
+  categoryId: "category-1",
+  type: "work",
+  plannedDuration: 25 * 60 * 1000,
+  actualDuration: 25 * 60 * 1000,
+  startTime: "2024-03-04T09:00:00.000Z",
+  endTime: "2024-03-04T09:30:00.000Z",
+  completed: true,
+};
+
+const backupText = (sessions: unknown[]) =>
+  JSON.stringify({
+    app: "sinkyourtime",
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: LATEST_VERSION,
+    exportedAt: "2024-03-05T00:00:00.000Z",
+    settings: {},
+    projects: [],
+    categories: [],
+    sessions,
+    tasks: [],
+    tags: [],
+    interruptions: [],
+  });
+
+const parseProblems = (text: string): string[] => {
+  try {
+    backupService.parse(text);
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(BackupValidationError);
+    return (error as BackupValidationError).problems;
+  }
+};
+
+describe("backupService.parse", () => {
+  it("revives the dates of sessions and their pauses", () => {
+    const backup = backupService.parse(
+      backupText([
+        {
+          ...session,
+          pauses: [
+            {
+              start: "2024-03-04T09:10:00.000Z",
+              end: "2024-03-04T09:15:00.000Z",
+            },
+          ],
+        },
+      ])
+    );
+
+    const [parsed] = backup.sessions;
+    expect(parsed.startTime).toBeInstanceOf(Date);
+    expect(parsed.pauses?.[0].start).toBeInstanceOf(Date);
+    expect(parsed.pauses?.[0].end).toBeInstanceOf(Date);
+  });
+
+  it.each([
+    ["a null pause", [null]],
+    ["a pause without a start", [{ end: "2024-03-04T09:15:00.000Z" }]],
+    [
+      "a pause with an unreadable end",
+      [{ start: session.startTime, end: "later" }],
+    ],
+    ["pauses that are not a list", "paused"],
+  ])("reports a session with %s as a validation problem", (_, pauses) => {
+    expect(parseProblems(backupText([{ ...session, pauses }]))).toEqual([
+      "1 of the sessions has missing or malformed fields or a repeated id",
+    ]);
+  });
+});
+
+const emptyBackup = (tables: Partial<BackupFile> = {}): BackupFile => ({
+  app: "sinkyourtime",
+  formatVersion: BACKUP_FORMAT_VERSION,
+  schemaVersion: LATEST_VERSION,
+  exportedAt: "2024-03-05T00:00:00.000Z",
+  settings: DEFAULT_SETTINGS,
+  projects: [],
+  categories: [],
+  sessions: [],
+  tasks: [],
+  tags: [],
+  interruptions: [],
+  ...tables,
+});
+
+const category = (name: string, updatedAt?: Date): Category => ({
+  id: "category-1",
+  name,
+  projectId: "project-1",
+  ...(updatedAt && { updatedAt }),
+});
+
+const storedSession = (
+  id: string,
+  overrides: Partial<TimerSession> = {}
+): TimerSession => ({
+  ...(session as Omit<TimerSession, "startTime" | "endTime">),
+  id,
+  startTime: new Date(2024, 2, 4, 9, 0),
+  endTime: new Date(2024, 2, 4, 9, 25),
+  ...overrides,
+});
+
+describe("backupService.import", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+    useTimerStore.setState({ sessionStartTime: undefined });
+  });
+
+  it("takes the backup's copy in a merge when it was changed more recently", async () => {
+    await db.categories.add(category("Local", new Date(2024, 0, 1)));
+
+    await backupService.import(
+      emptyBackup({ categories: [category("Backup", new Date(2024, 0, 2))] }),
+      "merge"
+    );
+
+    expect((await db.categories.get("category-1"))?.name).toBe("Backup");
+  });
+
+  it.each([
+    [
+      "both were changed at the same time",
+      new Date(2024, 0, 1),
+      new Date(2024, 0, 1),
+    ],
+    ["neither copy records a change", undefined, undefined],
+    ["only the local copy records a change", new Date(2024, 0, 1), undefined],
+  ])("keeps the local copy in a merge when %s", async (_, local, incoming) => {
+    await db.categories.add(category("Local", local));
+
+    await backupService.import(
+      emptyBackup({ categories: [category("Backup", incoming)] }),
+      "merge"
+    );
+
+    expect((await db.categories.get("category-1"))?.name).toBe("Local");
+  });
+
+  it("adds rows only in the backup and keeps local-only rows in a merge", async () => {
+    await db.timerSessions.add(storedSession("local-only"));
+
+    await backupService.import(
+      emptyBackup({ sessions: [storedSession("backup-only")] }),
+      "merge"
+    );
+
+    expect(
+      (await db.timerSessions.toCollection().primaryKeys()).sort()
+    ).toEqual(["backup-only", "local-only"]);
+  });
+
+  it("removes local-only rows in a replace and recounts the rollups", async () => {
+    await db.timerSessions.add(storedSession("local-only"));
+    await db.categories.add({ ...category("Local"), id: "local-category" });
+
+    await backupService.import(
+      emptyBackup({
+        sessions: [storedSession("backup-only", { actualDuration: 60000 })],
+      }),
+      "replace"
+    );
+
+    expect(await db.timerSessions.toCollection().primaryKeys()).toEqual([
+      "backup-only",
+    ]);
+    expect(await db.categories.count()).toBe(0);
+    const rollups = await db.dailyRollups.toArray();
+    expect(rollups).toHaveLength(1);
+    expect(rollups[0].totalDuration).toBe(60000);
+  });
+
+  it("rolls everything back, rollups included, when a write fails part-way", async () => {
+    await db.categories.add(category("Local"));
+    await db.timerSessions.add(storedSession("local-only"));
+    await db.dailyRollups.add({
+      id: "rollup-1",
+      date: "2024-03-04",
+      projectId: "project-1",
+      categoryId: "category-1",
+      type: "work",
+      sessionCount: 1,
+      completedCount: 1,
+      totalDuration: 25 * 60 * 1000,
+      lastStartTime: new Date(2024, 2, 4, 9, 0),
+    });
+
+    // The categories are replaced before the repeated session id fails
+    await expect(
+      backupService.import(
+        emptyBackup({
+          categories: [category("Backup")],
+          sessions: [storedSession("twice"), storedSession("twice")],
+        }),
+        "replace"
+      )
+    ).rejects.toThrow();
+
+    expect((await db.categories.get("category-1"))?.name).toBe("Local");
+    expect(await db.timerSessions.toCollection().primaryKeys()).toEqual([
+      "local-only",
+    ]);
+    expect(await db.dailyRollups.toCollection().primaryKeys()).toEqual([
+      "rollup-1",
+    ]);
+  });
+
+  it("refuses to replace while a session is running", async () => {
+    await db.timerSessions.add(storedSession("local-only"));
+    useTimerStore.setState({ sessionStartTime: new Date() });
+
+    await expect(
+      backupService.import(emptyBackup(), "replace")
+    ).rejects.toBeInstanceOf(BackupValidationError);
+    expect(await db.timerSessions.count()).toBe(1);
+  });
+
+  it("drops the timer checkpoint in a replace", async () => {
+    await db.timerCheckpoints.add({
+      id: "current",
+      isRunning: false,
+      currentMode: "work",
+      totalTime: 1500,
+      remainingMs: 1500000,
+      projectId: "project-1",
+      categoryId: "category-1",
+      completedPomodoros: 0,
+      savedAt: new Date(),
+    });
+
+    await backupService.import(emptyBackup(), "replace");
+
+    expect(await db.timerCheckpoints.count()).toBe(0);
+  });
+});
@@ -0,0 +1,372 @@
+import type { Table } from "dexie";
+import type {
+  Category,
+  Interruption,
+  ProjectRecord,
+  Tag,
+  Task,
+  TimerSession,
+  UserSettings,
+} from "../types";
+import { db } from "./database";
+import { LATEST_VERSION } from "./migrations";
+import { notifySessionsChanged } from "./sessionEvents";
+import { settingsRepository } from "./settingsRepository";
+import { useTimerStore } from "../stores/timerStore";
+import { buildDailyRollups } from "../utils/rollups";
+import {
+  SETTINGS_SCHEMA_VERSION,
+  parseStoredSettings,
+} from "../utils/settingsSchema";
+
+// Bumped when the shape of a backup file changes
+export const BACKUP_FORMAT_VERSION = 1;
+const BACKUP_APP = "sinkyourtime";
+
+export interface BackupFile {
+  app: typeof BACKUP_APP;
+  formatVersion: number;
+  schemaVersion: number; // database version the backup was taken at
+  exportedAt: string;
+  settings: UserSettings;
+  projects: ProjectRecord[];
+  categories: Category[];
+  sessions: TimerSession[];
+  tasks: Task[];
+  tags: Tag[];
+  interruptions: Interruption[];
+}
+
+export type BackupImportMode = "replace" | "merge";
+
+type BackupTableName =
+  | "projects"
+  | "categories"
+  | "sessions"
+  | "tasks"
+  | "tags"
+  | "interruptions";
+
+// What an import would do to one table. Merging never removes rows;
+// replacing removes every row not in the backup.
+export interface BackupTablePreview {
+  table: BackupTableName;
+  incoming: number;
+  added: number; // rows only in the backup
+  updated: number; // rows in both, where the backup's copy is newer
+  kept: number; // rows in both, where the local copy is kept on merge
+  removed: number; // local rows a replace would delete
+}
+
+export class BackupValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join("; "));
+    this.name = "BackupValidationError";
+    this.problems = problems;
+  }
+}
+
+type Row = { id: string; updatedAt?: Date };
+
+const TABLE_NAMES: BackupTableName[] = [
+  "projects",
+  "categories",
+  "sessions",
+  "tasks",
+  "tags",
+  "interruptions",
+];
+
+const getTable = (name: BackupTableName): Table<Row> => {
+  const tables: Record<BackupTableName, Table<Row>> = {
+    projects: db.projects,
+    categories: db.categories,
+    sessions: db.timerSessions,
+    tasks: db.tasks,
+    tags: db.tags,
+    interruptions: db.interruptions,
+  };
+  return tables[name];
+};
+
+// Fields that JSON turns into strings and need to be dates again
+const DATE_FIELDS: Record<BackupTableName, string[]> = {
+  projects: ["createdAt", "updatedAt", "deletedAt"],
+  categories: ["deletedAt", "updatedAt"],
+  sessions: ["startTime", "endTime", "deletedAt", "updatedAt"],
+  tasks: ["createdAt", "updatedAt", "deletedAt"],
+  tags: ["createdAt", "updatedAt"],
+  interruptions: ["createdAt", "updatedAt", "deletedAt"],
+};
+
+// Fields a row must have to be usable at all
+const REQUIRED_FIELDS: Record<BackupTableName, string[]> = {
+  projects: ["name", "createdAt"],
+  categories: ["name", "projectId"],
+  sessions: ["projectId", "categoryId", "type", "startTime", "actualDuration"],
+  tasks: ["projectId", "categoryId", "title"],
+  tags: ["name"],
+  interruptions: ["projectId", "categoryId", "kind"],
+};
+
+const isInvalidDate = (value: unknown) =>
+  value instanceof Date && isNaN(value.getTime());
+
+// A pause needs a start date and, once it has ended, an end date
+const isValidPause = (pause: unknown) => {
+  if (!pause || typeof pause !== "object") return false;
+  const { start, end } = pause as Record<string, unknown>;
+  const isDateLike = (value: unknown) =>
+    (typeof value === "string" || value instanceof Date) &&
+    !isNaN(new Date(value).getTime());
+  return isDateLike(start) && (end == null || isDateLike(end));
+};
+
+// Pauses are only present on sessions, and optional there
+const hasInvalidPauses = (row: Record<string, unknown>) =>
+  row.pauses !== undefined &&
+  (!Array.isArray(row.pauses) || !row.pauses.every(isValidPause));
+
+const reviveDates = (
+  row: Record<string, unknown>,
+  fields: string[]
+): Record<string, unknown> => {
+  const revived = { ...row };
+  fields.forEach((field) => {
+    if (typeof revived[field] === "string") {
+      revived[field] = new Date(revived[field] as string);
+    }
+  });
+  if (!hasInvalidPauses(revived) && Array.isArray(revived.pauses)) {
+    revived.pauses = revived.pauses.map((pause) => ({
+      ...pause,
+      start: new Date(pause.start),
+      ...(pause.end && { end: new Date(pause.end) }),
+    }));
+  }
+  return revived;
+};
+
+const getUpdatedTime = (row: Row) =>
+  row.updatedAt ? new Date(row.updatedAt).getTime() : 0;
+
+// The backup's copy wins a conflict only when it was changed more recently.
+// A copy without updatedAt, saved before changes were tracked, counts as the
+// oldest, so when neither copy has one the local copy is kept.
+const isNewer = (incoming: Row, local: Row) =>
+  getUpdatedTime(incoming) > getUpdatedTime(local);
+
+export const backupService = {
+  // Everything needed to rebuild the database, trash included
+  async export(): Promise<BackupFile> {
+    try {
+      const [projects, categories, sessions, tasks, tags, interruptions] =
+        await Promise.all([
+          db.projects.toArray(),
+          db.categories.toArray(),
+          db.timerSessions.toArray(),
+          db.tasks.toArray(),
+          db.tags.toArray(),
+          db.interruptions.toArray(),
+        ]);
+      return {
+        app: BACKUP_APP,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: LATEST_VERSION,
+        exportedAt: new Date().toISOString(),
+        settings: settingsRepository.get(),
+        projects,
+        categories,
+        sessions,
+        tasks,
+        tags,
+        interruptions,
+      };
+    } catch (error) {
+      console.error("Error exporting backup:", error);
+      throw error;
+    }
+  },
+
+  // Read a backup file's text. Throws BackupValidationError listing every
+  // problem found.
+  parse(text: string): BackupFile {
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new BackupValidationError(["The file is not valid JSON"]);
+    }
+    if (!raw || typeof raw !== "object" || raw.app !== BACKUP_APP) {
+      throw new BackupValidationError([
+        "The file is not a SinkYourTime backup",
+      ]);
+    }
+
+    const problems: string[] = [];
+    if (
+      typeof raw.formatVersion !== "number" ||
+      raw.formatVersion > BACKUP_FORMAT_VERSION ||
+      typeof raw.schemaVersion !== "number" ||
+      raw.schemaVersion > LATEST_VERSION
+    ) {
+      problems.push("The backup was made by a newer version of the app");
+    }
+
+    const tables = {} as Record<BackupTableName, Row[]>;
+    TABLE_NAMES.forEach((name) => {
+      const rows = raw[name];
+      if (!Array.isArray(rows)) {
+        problems.push(`The backup has no ${name} list`);
+        tables[name] = [];
+        return;
+      }
+
+      const seen = new Set<string>();
+      let broken = 0;
+      tables[name] = rows.map((row) => {
+        const revived = reviveDates(
+          row && typeof row === "object" ? row : {},
+          DATE_FIELDS[name]
+        );
+        const id = revived.id;
+        if (
+          typeof id !== "string" ||
+          seen.has(id) ||
+          REQUIRED_FIELDS[name].some((field) => revived[field] == null) ||
+          DATE_FIELDS[name].some((field) => isInvalidDate(revived[field])) ||
+          hasInvalidPauses(revived)
+        ) {
+          broken++;
+        }
+        if (typeof id === "string") seen.add(id);
+        return revived as Row;
+      });
+      if (broken > 0) {
+        problems.push(
+          `${broken} of the ${name} ${
+            broken === 1 ? "has" : "have"
+          } missing or malformed fields or a repeated id`
+        );
+      }
+    });
+
+    if (problems.length > 0) {
+      throw new BackupValidationError(problems);
+    }
+
+    return {
+      ...(raw as unknown as BackupFile),
+      ...(tables as unknown as Pick<BackupFile, BackupTableName>),
+      settings: parseStoredSettings(
+        raw.settings && typeof raw.settings === "object"
+          ? raw.settings
+          : undefined
+      ),
+    };
+  },
+
+  // Row counts for each table under either import mode
+  async preview(backup: BackupFile): Promise<BackupTablePreview[]> {
+    try {
+      return await Promise.all(
+        TABLE_NAMES.map(async (name) => {
+          const local = await getTable(name).toArray();
+          const localById = new Map(local.map((row) => [row.id, row]));
+          const incomingIds = new Set(backup[name].map((row) => row.id));
+
+          let added = 0;
+          let updated = 0;
+          backup[name].forEach((row) => {
+            const existing = localById.get(row.id);
+            if (!existing) added++;
+            else if (isNewer(row, existing)) updated++;
+          });
+
+          return {
+            table: name,
+            incoming: backup[name].length,
+            added,
+            updated,
+            kept: backup[name].length - added - updated,
+            removed: local.filter((row) => !incomingIds.has(row.id)).length,
+          };
+        })
+      );
+    } catch (error) {
+      console.error("Error previewing backup:", error);
+      throw error;
+    }
+  },
+
+  // Replace swaps in the backup's data and settings wholesale. Merge adds
+  // what is new and takes newer copies of changed rows, keeping local
+  // settings. Either way all of it applies, or none of it does.
+  //
+  // Replacing is refused while a session is running, since its project and
+  // category may not be in the backup; the timer's checkpoint is dropped for
+  // the same reason.
+  async import(backup: BackupFile, mode: BackupImportMode): Promise<void> {
+    if (mode === "replace" && useTimerStore.getState().sessionStartTime) {
+      throw new BackupValidationError([
+        "Save or discard the running session before replacing everything",
+      ]);
+    }
+
+    try {
+      await db.transaction(
+        "rw",
+        [
+          ...TABLE_NAMES.map(getTable),
+          db.userSettings,
+          db.dailyRollups,
+          db.timerCheckpoints,
+        ],
+        async () => {
+          for (const name of TABLE_NAMES) {
+            const table = getTable(name);
+            if (mode === "replace") {
+              await table.clear();
+              await table.bulkAdd(backup[name]);
+              continue;
+            }
+
+            const local = await table.bulkGet(
+              backup[name].map((row) => row.id)
+            );
+            await table.bulkPut(
+              backup[name].filter(
+                (row, index) => !local[index] || isNewer(row, local[index]!)
+              )
+            );
+          }
+
+          if (mode === "replace") {
+            await db.timerCheckpoints.clear();
+            await db.userSettings.put({
+              ...backup.settings,
+              id: "default",
+              schemaVersion: SETTINGS_SCHEMA_VERSION,
+            });
+          }
+
+          // Daily totals are derived, so they are recounted rather than
+          // carried in the backup
+          const sessions = await db.timerSessions
+            .filter((session) => !session.deletedAt)
+            .toArray();
+          await db.dailyRollups.clear();
+          await db.dailyRollups.bulkAdd(buildDailyRollups(sessions));
+        }
+      );
+
+      await settingsRepository.load();
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error importing backup:", error);
+      throw error;
+    }
+  },
+};
@@ -1,47 +1,91 @@
 import Dexie, { type Table } from "dexie";
-import type { Project, Category, TimerSession, UserSettings } from "../types";
+import type {
+  Project,
+  ProjectRecord,
+  Category,
+  TimerSession,
+  UserSettings,
+  TimerCheckpoint,
+  Interruption,
+  Task,
+  Tag,
+  TrashContents,
+  DailyRollup,
+} from "../types";
+import { getDefaultCategoryTemplate } from "../utils/categoryTemplates";
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_SCHEMA_VERSION,
+  parseStoredSettings,
+} from "../utils/settingsSchema";
+import { findOverlappingSession } from "../utils/sessionEditing";
+import { isFocusSession } from "../utils/sessionStats";
+import { buildDailyRollups, getDayBounds, toDayKey } from "../utils/rollups";
+import { notifySessionsChanged } from "./sessionEvents";
+import { applyMigrations } from "./migrations";
 
 export class SinkYourTimeDB extends Dexie {
-  projects!: Table<Project>;
+  projects!: Table<ProjectRecord>;
   categories!: Table<Category>;
   timerSessions!: Table<TimerSession>;
-  userSettings!: Table<UserSettings & { id: string }>;
+  userSettings!: Table<UserSettings & { id: string; schemaVersion?: number }>;
+  timerCheckpoints!: Table<TimerCheckpoint>;
+  interruptions!: Table<Interruption>;
+  tasks!: Table<Task>;
+  tags!: Table<Tag>;
+  dailyRollups!: Table<DailyRollup>;
 
   constructor() {
     super("SinkYourTimeDB");
-
-    this.version(1).stores({
-      projects: "id, name, status, createdAt",
-      categories: "id, projectId, name",
-      timerSessions: "id, projectId, categoryId, type, startTime, completed",
-      userSettings: "id",
-    });
+    applyMigrations(this);
   }
 }
 
 export const db = new SinkYourTimeDB();
 
-// Default categories as specified in PRD
-const DEFAULT_CATEGORIES = [
-  "Development",
-  "Marketing",
-  "Design",
-  "Planning",
-  "Meetings",
-  "Research",
-  "Administration",
-];
-
-// Default settings
-const DEFAULT_SETTINGS: UserSettings = {
-  workDuration: 25,
-  shortBreakDuration: 5,
-  longBreakDuration: 15,
-  longBreakInterval: 4,
-  audioEnabled: true,
-  notificationsEnabled: true,
-  autoStartBreaks: false,
-  theme: "system",
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Trashable = { deletedAt?: Date; updatedAt?: Date };
+
+const isInTrash = (item: Trashable) => !!item.deletedAt;
+
+const clearDeletedAt = (item: Trashable) => {
+  delete item.deletedAt;
+  item.updatedAt = new Date();
+};
+
+const getSessionDays = (sessions: Pick<TimerSession, "startTime">[]) =>
+  sessions.map((session) => toDayKey(new Date(session.startTime)));
+
+// Recount the rollups of the given days from their sessions. Called inside
+// the writer's transaction, which must include timerSessions and dailyRollups.
+const refreshRollups = async (days: string[]) => {
+  for (const day of new Set(days)) {
+    const [start, end] = getDayBounds(day);
+    const sessions = await db.timerSessions
+      .where("startTime")
+      .between(start, end, true, false)
+      .filter((session) => !isInTrash(session))
+      .toArray();
+    await db.dailyRollups.where("date").equals(day).delete();
+    await db.dailyRollups.bulkAdd(buildDailyRollups(sessions));
+  }
+};
+
+// Permanently delete categories and everything recorded under them, so no
+// session, task or interruption is left pointing at a missing category.
+// Called inside the caller's transaction, which must include categories,
+// timerSessions, interruptions, tasks and dailyRollups.
+const purgeCategories = async (categoryIds: string[]) => {
+  const sessions = await db.timerSessions
+    .where("categoryId")
+    .anyOf(categoryIds)
+    .toArray();
+  await db.categories.bulkDelete(categoryIds);
+  await db.timerSessions.bulkDelete(sessions.map((session) => session.id));
+  await db.interruptions.where("categoryId").anyOf(categoryIds).delete();
+  await db.tasks.where("categoryId").anyOf(categoryIds).delete();
+  await refreshRollups(getSessionDays(sessions));
 };
 
 // Initialize database with default data
@@ -52,6 +96,7 @@ export async function initializeDatabase() {
     if (settings.length === 0) {
       await db.userSettings.add({
         id: "default",
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
         ...DEFAULT_SETTINGS,
       });
     }
@@ -59,38 +104,20 @@ export async function initializeDatabase() {
     // Check if any projects exist
     const projects = await db.projects.toArray();
     if (projects.length === 0) {
-      // Create a default project
-      const defaultProject: Project = {
-        id: crypto.randomUUID(),
-        name: "Default Project",
-        description: "Your first project",
-        color: "#3b82f6",
-        status: "active",
-        categories: [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      await db.projects.add(defaultProject);
-
-      // Add default categories to the default project
-      const categoryPromises = DEFAULT_CATEGORIES.map((categoryName) => {
-        const category: Category = {
-          id: crypto.randomUUID(),
-          name: categoryName,
-          projectId: defaultProject.id,
-        };
-        return db.categories.add(category);
-      });
-
-      await Promise.all(categoryPromises);
-
-      // Update project with categories
-      const categories = await db.categories
-        .where("projectId")
-        .equals(defaultProject.id)
-        .toArray();
-      await db.projects.update(defaultProject.id, { categories });
+      // Create a default project with the default template's categories
+      const template = getDefaultCategoryTemplate(
+        parseStoredSettings(settings[0])
+      );
+      await projectService.create(
+        {
+          name: "Default Project",
+          description: "Your first project",
+          color: "#3b82f6",
+          status: "active",
+          categories: [],
+        },
+        template?.categories ?? []
+      );
     }
   } catch (error) {
     console.error("Error initializing database:", error);
@@ -98,16 +125,28 @@ export async function initializeDatabase() {
   }
 }
 
+// Categories are stored in their own table, never on the project row
+const toProjectRecord = <T extends Partial<Project>>(
+  project: T
+): Omit<T, "categories"> => {
+  const record = { ...project };
+  delete record.categories;
+  return record;
+};
+
 // Project operations
 export const projectService = {
   async getAll(): Promise<Project[]> {
     try {
-      const projects = await db.projects.toArray();
+      const projects = await db.projects
+        .filter((project) => !isInTrash(project))
+        .toArray();
       return Promise.all(
         projects.map(async (project) => {
           const categories = await db.categories
             .where("projectId")
             .equals(project.id)
+            .filter((category) => !isInTrash(category))
             .toArray();
           return { ...project, categories };
         })
@@ -121,10 +160,11 @@ export const projectService = {
   async getById(id: string): Promise<Project | undefined> {
     try {
       const project = await db.projects.get(id);
-      if (project) {
+      if (project && !isInTrash(project)) {
         const categories = await db.categories
           .where("projectId")
           .equals(id)
+          .filter((category) => !isInTrash(category))
           .toArray();
         return { ...project, categories };
       }
@@ -135,18 +175,31 @@ export const projectService = {
     }
   },
 
+  // The project starts with a category for each of `categoryNames`
   async create(
-    project: Omit<Project, "id" | "createdAt" | "updatedAt">
+    project: Omit<Project, "id" | "createdAt" | "updatedAt">,
+    categoryNames: string[] = []
   ): Promise<Project> {
     try {
+      const id = crypto.randomUUID();
+      const categories: Category[] = categoryNames.map((name) => ({
+        id: crypto.randomUUID(),
+        name,
+        projectId: id,
+        updatedAt: new Date(),
+      }));
       const newProject: Project = {
         ...project,
-        id: crypto.randomUUID(),
+        id,
+        categories,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      await db.projects.add(newProject);
+      await db.transaction("rw", [db.projects, db.categories], async () => {
+        await db.projects.add(toProjectRecord(newProject));
+        await db.categories.bulkAdd(categories);
+      });
       return newProject;
     } catch (error) {
       console.error("Error creating project:", error);
@@ -156,31 +209,159 @@ export const projectService = {
 
   async update(id: string, updates: Partial<Project>): Promise<void> {
     try {
-      await db.projects.update(id, { ...updates, updatedAt: new Date() });
+      await db.projects.update(id, {
+        ...toProjectRecord(updates),
+        updatedAt: new Date(),
+      });
     } catch (error) {
       console.error("Error updating project:", error);
       throw error;
     }
   },
 
+  // Move the project to the trash with its categories, sessions, tasks and
+  // interruptions. They share one deletedAt so a restore brings back exactly
+  // what went with it.
   async delete(id: string): Promise<void> {
     try {
-      await db.projects.delete(id);
-      // Also delete associated categories and sessions
-      await db.categories.where("projectId").equals(id).delete();
-      await db.timerSessions.where("projectId").equals(id).delete();
+      const deletedAt = new Date();
+      await db.transaction(
+        "rw",
+        [
+          db.projects,
+          db.categories,
+          db.timerSessions,
+          db.tasks,
+          db.interruptions,
+          db.dailyRollups,
+        ],
+        async () => {
+          await db.projects.update(id, { deletedAt, updatedAt: deletedAt });
+          await db.categories
+            .where("projectId")
+            .equals(id)
+            .filter((category) => !isInTrash(category))
+            .modify({ deletedAt, updatedAt: deletedAt });
+          await db.timerSessions
+            .where("projectId")
+            .equals(id)
+            .filter((session) => !isInTrash(session))
+            .modify({ deletedAt, updatedAt: deletedAt });
+          await db.tasks
+            .where("projectId")
+            .equals(id)
+            .filter((task) => !isInTrash(task))
+            .modify({ deletedAt, updatedAt: deletedAt });
+          await db.interruptions
+            .where("projectId")
+            .equals(id)
+            .filter((interruption) => !isInTrash(interruption))
+            .modify({ deletedAt, updatedAt: deletedAt });
+          await db.dailyRollups.where("projectId").equals(id).delete();
+        }
+      );
+      notifySessionsChanged();
     } catch (error) {
       console.error("Error deleting project:", error);
       throw error;
     }
   },
+
+  async restore(id: string): Promise<void> {
+    try {
+      const project = await db.projects.get(id);
+      if (!project?.deletedAt) return;
+
+      const deletedAt = new Date(project.deletedAt).getTime();
+      const wentWithProject = (item: Trashable) =>
+        !!item.deletedAt && new Date(item.deletedAt).getTime() === deletedAt;
+
+      await db.transaction(
+        "rw",
+        [
+          db.projects,
+          db.categories,
+          db.timerSessions,
+          db.tasks,
+          db.interruptions,
+          db.dailyRollups,
+        ],
+        async () => {
+          await db.projects.where("id").equals(id).modify(clearDeletedAt);
+          await db.categories
+            .where("projectId")
+            .equals(id)
+            .filter(wentWithProject)
+            .modify(clearDeletedAt);
+          const sessions = await db.timerSessions
+            .where("projectId")
+            .equals(id)
+            .filter(wentWithProject)
+            .toArray();
+          await db.timerSessions
+            .where("projectId")
+            .equals(id)
+            .filter(wentWithProject)
+            .modify(clearDeletedAt);
+          await db.tasks
+            .where("projectId")
+            .equals(id)
+            .filter(wentWithProject)
+            .modify(clearDeletedAt);
+          await db.interruptions
+            .where("projectId")
+            .equals(id)
+            .filter(wentWithProject)
+            .modify(clearDeletedAt);
+          await refreshRollups(getSessionDays(sessions));
+        }
+      );
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error restoring project:", error);
+      throw error;
+    }
+  },
+
+  // Permanently delete the project and everything recorded under it
+  async purge(id: string): Promise<void> {
+    try {
+      await db.transaction(
+        "rw",
+        [
+          db.projects,
+          db.categories,
+          db.timerSessions,
+          db.interruptions,
+          db.tasks,
+          db.dailyRollups,
+        ],
+        async () => {
+          await db.projects.delete(id);
+          await db.categories.where("projectId").equals(id).delete();
+          await db.timerSessions.where("projectId").equals(id).delete();
+          await db.interruptions.where("projectId").equals(id).delete();
+          await db.tasks.where("projectId").equals(id).delete();
+          await db.dailyRollups.where("projectId").equals(id).delete();
+        }
+      );
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error purging project:", error);
+      throw error;
+    }
+  },
 };
 
 // Category operations
 export const categoryService = {
   async getByProject(projectId: string): Promise<Category[]> {
     try {
-      return await db.categories.where("projectId").equals(projectId).toArray();
+      return await db.categories
+        .where("projectId")
+        .equals(projectId)
+        .filter((category) => !isInTrash(category))
+        .toArray();
     } catch (error) {
       console.error("Error getting categories by project:", error);
       throw error;
@@ -192,6 +373,7 @@ export const categoryService = {
       const newCategory: Category = {
         ...category,
         id: crypto.randomUUID(),
+        updatedAt: new Date(),
       };
       await db.categories.add(newCategory);
       return newCategory;
@@ -203,28 +385,117 @@ export const categoryService = {
 
   async update(id: string, updates: Partial<Category>): Promise<void> {
     try {
-      await db.categories.update(id, updates);
+      await db.categories.update(id, { ...updates, updatedAt: new Date() });
     } catch (error) {
       console.error("Error updating category:", error);
       throw error;
     }
   },
 
+  // Move the category to the trash; its sessions stay where they are
   async delete(id: string): Promise<void> {
     try {
-      await db.categories.delete(id);
+      const deletedAt = new Date();
+      await db.categories.update(id, { deletedAt, updatedAt: deletedAt });
     } catch (error) {
       console.error("Error deleting category:", error);
       throw error;
     }
   },
+
+  async restore(id: string): Promise<void> {
+    try {
+      await db.categories.where("id").equals(id).modify(clearDeletedAt);
+    } catch (error) {
+      console.error("Error restoring category:", error);
+      throw error;
+    }
+  },
+
+  // Permanently delete the category with its sessions, tasks and
+  // interruptions
+  async purge(id: string): Promise<void> {
+    try {
+      await db.transaction(
+        "rw",
+        [
+          db.categories,
+          db.timerSessions,
+          db.interruptions,
+          db.tasks,
+          db.dailyRollups,
+        ],
+        () => purgeCategories([id])
+      );
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error purging category:", error);
+      throw error;
+    }
+  },
+
+  // Move everything recorded under one category into another of the same
+  // project and put the emptied category in the trash, all or nothing
+  async merge(sourceId: string, targetId: string): Promise<void> {
+    try {
+      const [source, target] = await Promise.all([
+        db.categories.get(sourceId),
+        db.categories.get(targetId),
+      ]);
+      if (!source || !target || isInTrash(target)) {
+        throw new Error("Both categories must exist to merge them");
+      }
+      if (sourceId === targetId || source.projectId !== target.projectId) {
+        throw new Error("Pick another category of the same project");
+      }
+
+      await db.transaction(
+        "rw",
+        [
+          db.categories,
+          db.timerSessions,
+          db.tasks,
+          db.interruptions,
+          db.dailyRollups,
+        ],
+        async () => {
+          const now = new Date();
+          const moved = { categoryId: targetId, updatedAt: now };
+          const sessions = await db.timerSessions
+            .where("categoryId")
+            .equals(sourceId)
+            .toArray();
+          await db.timerSessions
+            .where("categoryId")
+            .equals(sourceId)
+            .modify(moved);
+          await db.tasks.where("categoryId").equals(sourceId).modify(moved);
+          await db.interruptions
+            .where("categoryId")
+            .equals(sourceId)
+            .modify(moved);
+          await db.categories.update(sourceId, {
+            deletedAt: now,
+            updatedAt: now,
+          });
+          await refreshRollups(getSessionDays(sessions));
+        }
+      );
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error merging categories:", error);
+      throw error;
+    }
+  },
 };
 
 // Session operations
 export const sessionService = {
   async getAll(): Promise<TimerSession[]> {
     try {
-      const sessions = await db.timerSessions.toArray();
+      const sessions = await db.timerSessions
+        .filter((session) => !isInTrash(session))
+        .toArray();
       return sessions.sort(
         (a, b) =>
           new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
@@ -240,31 +511,23 @@ export const sessionService = {
     endDate: Date
   ): Promise<TimerSession[]> {
     try {
-      // Get all sessions and filter manually for better reliability
-      const allSessions = await db.timerSessions.toArray();
-
-      const filteredSessions = allSessions.filter((session) => {
-        const sessionDate = new Date(session.startTime);
-        const isInRange = sessionDate >= startDate && sessionDate <= endDate;
-
-        if (isInRange) {
-          // Session is in the specified date range
-        }
-
-        return isInRange;
-      });
-
-      return filteredSessions.sort(
-        (a, b) =>
-          new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
-      );
+      // Newest first, read straight off the startTime index
+      return await db.timerSessions
+        .where("startTime")
+        .between(startDate, endDate, true, true)
+        .reverse()
+        .filter((session) => !isInTrash(session))
+        .toArray();
     } catch (error) {
       console.error("Error getting sessions by date range:", error);
       throw error;
     }
   },
 
-  async create(session: Omit<TimerSession, "id">): Promise<TimerSession> {
+  // Sessions started by the timer arrive with the id they were tracked under
+  async create(
+    session: Omit<TimerSession, "id"> & { id?: string }
+  ): Promise<TimerSession> {
     try {
       // Validate required fields
       if (!session.projectId || !session.categoryId || !session.startTime) {
@@ -275,10 +538,19 @@ export const sessionService = {
 
       const newSession: TimerSession = {
         ...session,
-        id: crypto.randomUUID(),
+        id: session.id || crypto.randomUUID(),
+        updatedAt: new Date(),
       };
 
-      await db.timerSessions.add(newSession);
+      await db.transaction(
+        "rw",
+        [db.timerSessions, db.dailyRollups],
+        async () => {
+          await db.timerSessions.add(newSession);
+          await refreshRollups(getSessionDays([newSession]));
+        }
+      );
+      notifySessionsChanged();
       return newSession;
     } catch (error) {
       console.error("Error creating session:", error);
@@ -288,76 +560,547 @@ export const sessionService = {
 
   async update(id: string, updates: Partial<TimerSession>): Promise<void> {
     try {
-      await db.timerSessions.update(id, updates);
+      await db.transaction(
+        "rw",
+        [db.timerSessions, db.dailyRollups],
+        async () => {
+          // A new start time can move the session to another day
+          const before = await db.timerSessions.get(id);
+          await db.timerSessions.update(id, {
+            ...updates,
+            updatedAt: new Date(),
+          });
+          const after = await db.timerSessions.get(id);
+          await refreshRollups(
+            getSessionDays([before, after].filter((s) => s !== undefined))
+          );
+        }
+      );
+      notifySessionsChanged();
     } catch (error) {
       console.error("Error updating session:", error);
       throw error;
     }
   },
 
+  // Replace a session with two parts: the original is updated in place and
+  // the second part added under a new id, all or nothing
+  async split(
+    id: string,
+    firstUpdates: Partial<TimerSession>,
+    second: Omit<TimerSession, "id">
+  ): Promise<TimerSession> {
+    try {
+      const secondSession: TimerSession = {
+        ...second,
+        id: crypto.randomUUID(),
+        updatedAt: new Date(),
+      };
+      await db.transaction(
+        "rw",
+        [db.timerSessions, db.dailyRollups],
+        async () => {
+          const original = await db.timerSessions.get(id);
+          await db.timerSessions.update(id, {
+            ...firstUpdates,
+            updatedAt: new Date(),
+          });
+          await db.timerSessions.add(secondSession);
+          await refreshRollups(
+            getSessionDays(
+              [original, secondSession].filter((s) => s !== undefined)
+            )
+          );
+        }
+      );
+      notifySessionsChanged();
+      return secondSession;
+    } catch (error) {
+      console.error("Error splitting session:", error);
+      throw error;
+    }
+  },
+
+  // A saved session sharing any time with [start, end), across all projects
+  async findOverlapping(
+    start: Date,
+    end: Date,
+    ignoreIds: string[] = []
+  ): Promise<TimerSession | undefined> {
+    try {
+      const candidates = await db.timerSessions
+        .where("startTime")
+        .below(end)
+        .filter((session) => !isInTrash(session))
+        .toArray();
+      return findOverlappingSession(candidates, start, end, ignoreIds);
+    } catch (error) {
+      console.error("Error checking for overlapping sessions:", error);
+      throw error;
+    }
+  },
+
+  // Move the session to the trash
   async delete(id: string): Promise<void> {
     try {
-      await db.timerSessions.delete(id);
+      await db.transaction(
+        "rw",
+        [db.timerSessions, db.dailyRollups],
+        async () => {
+          const session = await db.timerSessions.get(id);
+          const deletedAt = new Date();
+          await db.timerSessions.update(id, {
+            deletedAt,
+            updatedAt: deletedAt,
+          });
+          await refreshRollups(getSessionDays(session ? [session] : []));
+        }
+      );
+      notifySessionsChanged();
     } catch (error) {
       console.error("Error deleting session:", error);
       throw error;
     }
   },
 
-  // Get sessions by project
-  async getByProject(projectId: string): Promise<TimerSession[]> {
+  async restore(id: string): Promise<void> {
     try {
-      const sessions = await db.timerSessions
-        .where("projectId")
-        .equals(projectId)
-        .toArray();
+      await db.transaction(
+        "rw",
+        [db.timerSessions, db.dailyRollups],
+        async () => {
+          const session = await db.timerSessions.get(id);
+          await db.timerSessions.where("id").equals(id).modify(clearDeletedAt);
+          await refreshRollups(getSessionDays(session ? [session] : []));
+        }
+      );
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error restoring session:", error);
+      throw error;
+    }
+  },
 
-      return sessions.sort(
-        (a, b) =>
-          new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+  // Permanently delete the session and the interruptions logged during it
+  async purge(id: string): Promise<void> {
+    try {
+      await db.transaction(
+        "rw",
+        [db.timerSessions, db.interruptions],
+        async () => {
+          await db.timerSessions.delete(id);
+          await db.interruptions.where("sessionId").equals(id).delete();
+        }
       );
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error purging session:", error);
+      throw error;
+    }
+  },
+
+  // Get sessions by project, newest first; `since` leaves out sessions that
+  // started before it
+  async getByProject(projectId: string, since?: Date): Promise<TimerSession[]> {
+    try {
+      return await db.timerSessions
+        .where("[projectId+startTime]")
+        .between([projectId, since ?? Dexie.minKey], [projectId, Dexie.maxKey])
+        .reverse()
+        .filter((session) => !isInTrash(session))
+        .toArray();
     } catch (error) {
       console.error("Error getting sessions by project:", error);
       throw error;
     }
   },
 
+  // The project's latest `count` focus sessions, newest first
+  async getLatestFocusByProject(
+    projectId: string,
+    count: number
+  ): Promise<TimerSession[]> {
+    try {
+      return await db.timerSessions
+        .where("[projectId+startTime]")
+        .between([projectId, Dexie.minKey], [projectId, Dexie.maxKey])
+        .reverse()
+        .filter((session) => !isInTrash(session) && isFocusSession(session))
+        .limit(count)
+        .toArray();
+    } catch (error) {
+      console.error("Error getting latest sessions by project:", error);
+      throw error;
+    }
+  },
+
+  // Sessions recorded against any of the given tasks
+  async getByTasks(taskIds: string[]): Promise<TimerSession[]> {
+    try {
+      return await db.timerSessions
+        .where("taskId")
+        .anyOf(taskIds)
+        .filter((session) => !isInTrash(session))
+        .toArray();
+    } catch (error) {
+      console.error("Error getting sessions by task:", error);
+      throw error;
+    }
+  },
+
   // Get sessions by category
   async getByCategory(categoryId: string): Promise<TimerSession[]> {
     try {
-      const sessions = await db.timerSessions
-        .where("categoryId")
-        .equals(categoryId)
+      return await db.timerSessions
+        .where("[categoryId+startTime]")
+        .between([categoryId, Dexie.minKey], [categoryId, Dexie.maxKey])
+        .reverse()
+        .filter((session) => !isInTrash(session))
         .toArray();
+    } catch (error) {
+      console.error("Error getting sessions by category:", error);
+      throw error;
+    }
+  },
+};
 
-      return sessions.sort(
+// Timer checkpoint operations
+const TIMER_CHECKPOINT_ID = "current";
+
+export const timerCheckpointService = {
+  async get(): Promise<TimerCheckpoint | undefined> {
+    try {
+      return await db.timerCheckpoints.get(TIMER_CHECKPOINT_ID);
+    } catch (error) {
+      console.error("Error getting timer checkpoint:", error);
+      return undefined;
+    }
+  },
+
+  async save(checkpoint: Omit<TimerCheckpoint, "id">): Promise<void> {
+    try {
+      await db.timerCheckpoints.put({ ...checkpoint, id: TIMER_CHECKPOINT_ID });
+    } catch (error) {
+      console.error("Error saving timer checkpoint:", error);
+      throw error;
+    }
+  },
+
+  async clear(): Promise<void> {
+    try {
+      await db.timerCheckpoints.delete(TIMER_CHECKPOINT_ID);
+    } catch (error) {
+      console.error("Error clearing timer checkpoint:", error);
+      throw error;
+    }
+  },
+};
+
+// Interruption operations
+export const interruptionService = {
+  async getAll(): Promise<Interruption[]> {
+    try {
+      const interruptions = await db.interruptions
+        .filter((interruption) => !isInTrash(interruption))
+        .toArray();
+      return interruptions.sort(
         (a, b) =>
-          new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
       );
     } catch (error) {
-      console.error("Error getting sessions by category:", error);
+      console.error("Error getting interruptions:", error);
+      throw error;
+    }
+  },
+
+  async getByDateRange(
+    startDate: Date,
+    endDate: Date
+  ): Promise<Interruption[]> {
+    try {
+      return await db.interruptions
+        .where("createdAt")
+        .between(startDate, endDate, true, true)
+        .filter((interruption) => !isInTrash(interruption))
+        .toArray();
+    } catch (error) {
+      console.error("Error getting interruptions by date range:", error);
+      throw error;
+    }
+  },
+
+  async create(
+    interruption: Omit<Interruption, "id" | "createdAt" | "reviewed">
+  ): Promise<Interruption> {
+    try {
+      const newInterruption: Interruption = {
+        ...interruption,
+        id: crypto.randomUUID(),
+        reviewed: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await db.interruptions.add(newInterruption);
+      return newInterruption;
+    } catch (error) {
+      console.error("Error creating interruption:", error);
+      throw error;
+    }
+  },
+
+  async update(id: string, updates: Partial<Interruption>): Promise<void> {
+    try {
+      await db.interruptions.update(id, { ...updates, updatedAt: new Date() });
+    } catch (error) {
+      console.error("Error updating interruption:", error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await db.interruptions.delete(id);
+    } catch (error) {
+      console.error("Error deleting interruption:", error);
       throw error;
     }
   },
 };
 
-// Settings operations
-export const settingsService = {
-  async get(): Promise<UserSettings> {
+// Task operations
+export const taskService = {
+  async getAll(): Promise<Task[]> {
     try {
-      const settings = await db.userSettings.get("default");
-      return settings || DEFAULT_SETTINGS;
+      const tasks = await db.tasks.filter((task) => !isInTrash(task)).toArray();
+      return tasks.sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
     } catch (error) {
-      console.error("Error getting settings:", error);
-      return DEFAULT_SETTINGS;
+      console.error("Error getting tasks:", error);
+      throw error;
     }
   },
 
-  async update(updates: Partial<UserSettings>): Promise<void> {
+  async getById(id: string): Promise<Task | undefined> {
     try {
-      await db.userSettings.update("default", updates);
+      const task = await db.tasks.get(id);
+      return task && !isInTrash(task) ? task : undefined;
+    } catch (error) {
+      console.error("Error getting task:", error);
+      throw error;
+    }
+  },
+
+  async create(
+    task: Omit<Task, "id" | "createdAt" | "updatedAt">
+  ): Promise<Task> {
+    try {
+      const newTask: Task = {
+        ...task,
+        id: crypto.randomUUID(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await db.tasks.add(newTask);
+      return newTask;
+    } catch (error) {
+      console.error("Error creating task:", error);
+      throw error;
+    }
+  },
+
+  async update(id: string, updates: Partial<Task>): Promise<void> {
+    try {
+      await db.tasks.update(id, { ...updates, updatedAt: new Date() });
+    } catch (error) {
+      console.error("Error updating task:", error);
+      throw error;
+    }
+  },
+
+  // Sessions keep their taskId; reports show them as an unknown task
+  async delete(id: string): Promise<void> {
+    try {
+      await db.tasks.delete(id);
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      throw error;
+    }
+  },
+};
+
+// Trash operations
+export const trashService = {
+  // Categories and sessions that went with a deleted project are listed with
+  // the project rather than on their own
+  async getContents(): Promise<TrashContents> {
+    try {
+      const projects = await db.projects.filter(isInTrash).toArray();
+      const trashedProjectIds = new Set(projects.map((project) => project.id));
+      const categories = await db.categories.filter(isInTrash).toArray();
+      const sessions = await db.timerSessions.filter(isInTrash).toArray();
+
+      const byDeletedAt = (a: Trashable, b: Trashable) =>
+        new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime();
+
+      return {
+        projects: projects
+          .map((project) => ({
+            ...project,
+            categories: categories.filter(
+              (category) => category.projectId === project.id
+            ),
+          }))
+          .sort(byDeletedAt),
+        categories: categories
+          .filter((category) => !trashedProjectIds.has(category.projectId))
+          .sort(byDeletedAt),
+        sessions: sessions
+          .filter((session) => !trashedProjectIds.has(session.projectId))
+          .sort(byDeletedAt),
+      };
+    } catch (error) {
+      console.error("Error getting trash contents:", error);
+      throw error;
+    }
+  },
+
+  // Permanently delete whatever has been in the trash longer than
+  // `retentionDays`; 0 empties it
+  async purgeExpired(retentionDays: number): Promise<void> {
+    try {
+      const cutoff = Date.now() - retentionDays * DAY_MS;
+      const isExpired = (item: Trashable) =>
+        !!item.deletedAt && new Date(item.deletedAt).getTime() <= cutoff;
+
+      const projectIds = await db.projects.filter(isExpired).primaryKeys();
+      for (const id of projectIds) {
+        await projectService.purge(id as string);
+      }
+
+      const categoryIds = (await db.categories
+        .filter(isExpired)
+        .primaryKeys()) as string[];
+      const sessionIds = (await db.timerSessions
+        .filter(isExpired)
+        .primaryKeys()) as string[];
+      await db.transaction(
+        "rw",
+        [
+          db.categories,
+          db.timerSessions,
+          db.interruptions,
+          db.tasks,
+          db.dailyRollups,
+        ],
+        async () => {
+          await purgeCategories(categoryIds);
+          await db.timerSessions.bulkDelete(sessionIds);
+          await db.interruptions.where("sessionId").anyOf(sessionIds).delete();
+        }
+      );
+      if (categoryIds.length > 0 || sessionIds.length > 0) {
+        notifySessionsChanged();
+      }
+    } catch (error) {
+      console.error("Error purging trash:", error);
+      throw error;
+    }
+  },
+};
+
+// Tag operations
+export const tagService = {
+  async getAll(): Promise<Tag[]> {
+    try {
+      const tags = await db.tags.toArray();
+      return tags.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error("Error getting tags:", error);
+      throw error;
+    }
+  },
+
+  async create(tag: Omit<Tag, "id" | "createdAt">): Promise<Tag> {
+    try {
+      const newTag: Tag = {
+        ...tag,
+        id: crypto.randomUUID(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      await db.tags.add(newTag);
+      return newTag;
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      throw error;
+    }
+  },
+
+  async update(id: string, updates: Partial<Tag>): Promise<void> {
+    try {
+      await db.tags.update(id, { ...updates, updatedAt: new Date() });
+    } catch (error) {
+      console.error("Error updating tag:", error);
+      throw error;
+    }
+  },
+
+  // Removing a tag also takes it off every session that carried it
+  async delete(id: string): Promise<void> {
+    try {
+      await db.transaction("rw", [db.tags, db.timerSessions], async () => {
+        await db.tags.delete(id);
+        await db.timerSessions
+          .where("tagIds")
+          .equals(id)
+          .modify((session) => {
+            session.tagIds = session.tagIds?.filter((tagId) => tagId !== id);
+            session.updatedAt = new Date();
+          });
+      });
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      throw error;
+    }
+  },
+};
+
+// Daily rollup operations
+export const rollupService = {
+  // Rollups of one project, or of every project
+  async getAll(projectId?: string): Promise<DailyRollup[]> {
+    try {
+      return projectId
+        ? await db.dailyRollups.where("projectId").equals(projectId).toArray()
+        : await db.dailyRollups.toArray();
+    } catch (error) {
+      console.error("Error getting daily rollups:", error);
+      throw error;
+    }
+  },
+
+  // Recount every rollup from the sessions, for when they have drifted
+  async rebuild(): Promise<void> {
+    try {
+      await db.transaction(
+        "rw",
+        [db.timerSessions, db.dailyRollups],
+        async () => {
+          const sessions = await db.timerSessions
+            .filter((session) => !isInTrash(session))
+            .toArray();
+          await db.dailyRollups.clear();
+          await db.dailyRollups.bulkAdd(buildDailyRollups(sessions));
+        }
+      );
     } catch (error) {
-      console.error("Error updating settings:", error);
+      console.error("Error rebuilding daily rollups:", error);
       throw error;
     }
   },
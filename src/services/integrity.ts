@@ -0,0 +1,367 @@
+import type { Category, Project, TimerSession } from "../types";
+import { db, rollupService } from "./database";
+import { notifySessionsChanged } from "./sessionEvents";
+import { buildDailyRollups } from "../utils/rollups";
+
+export type IntegrityIssueKind =
+  | "orphanedCategories"
+  | "orphanedSessions"
+  | "projectCategoryCopies"
+  | "invalidSessionTimes"
+  | "staleRollups";
+
+// reassign: move the rows under another project or category
+// delete: remove the rows for good
+// resync: rebuild the rows from the data they were derived from
+export type IntegrityRepair = "reassign" | "delete" | "resync";
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  description: string;
+  count: number;
+  examples: string[]; // a few of the affected rows, for the user to recognise
+  repairs: IntegrityRepair[];
+  reassignTo?: "project" | "category"; // what a reassign needs picking
+}
+
+export interface IntegrityReport {
+  issues: IntegrityIssue[];
+  scannedAt: Date;
+}
+
+const EXAMPLE_COUNT = 3;
+
+const shortId = (id: string) => id.slice(0, 8);
+
+const describeSession = (session: TimerSession) =>
+  `${new Date(session.startTime).toLocaleString()} · ${Math.round(
+    session.actualDuration / 60000
+  )}m`;
+
+// Project rows from before categories moved to their own table carry a copy
+type ProjectRow = Omit<Project, "categories"> & { categories?: Category[] };
+
+interface ScanData {
+  projects: ProjectRow[];
+  categories: Category[];
+  sessions: TimerSession[];
+}
+
+const loadScanData = async (): Promise<ScanData> => {
+  const [projects, categories, sessions] = await Promise.all([
+    db.projects.toArray() as Promise<ProjectRow[]>,
+    db.categories.toArray(),
+    db.timerSessions.toArray(),
+  ]);
+  return { projects, categories, sessions };
+};
+
+// Each check reads the whole database, trashed rows included, and returns the
+// rows it would repair
+const findOrphanedCategories = ({ projects, categories }: ScanData) => {
+  const projectIds = new Set(projects.map((project) => project.id));
+  return categories.filter((category) => !projectIds.has(category.projectId));
+};
+
+// Sessions whose category is gone, or filed under a project the category
+// does not belong to
+const findOrphanedSessions = ({ categories, sessions }: ScanData) => {
+  const categoriesById = new Map(
+    categories.map((category) => [category.id, category])
+  );
+  return sessions.filter(
+    (session) =>
+      categoriesById.get(session.categoryId)?.projectId !== session.projectId
+  );
+};
+
+const findProjectCategoryCopies = ({ projects }: ScanData) => {
+  return projects.filter((project) => project.categories !== undefined);
+};
+
+const findInvalidSessionTimes = ({ sessions }: ScanData) => {
+  return sessions.filter(
+    (session) =>
+      session.actualDuration < 0 ||
+      (!!session.endTime &&
+        new Date(session.endTime).getTime() <
+          new Date(session.startTime).getTime())
+  );
+};
+
+// Rollups that don't match a fresh count of the sessions
+const countStaleRollups = async ({ sessions }: ScanData) => {
+  const stored = await db.dailyRollups.toArray();
+  const expected = buildDailyRollups(
+    sessions.filter((session) => !session.deletedAt)
+  );
+  const storedById = new Map(stored.map((rollup) => [rollup.id, rollup]));
+  const expectedIds = new Set(expected.map((rollup) => rollup.id));
+
+  const mismatched = expected.filter((rollup) => {
+    const existing = storedById.get(rollup.id);
+    return (
+      !existing ||
+      existing.sessionCount !== rollup.sessionCount ||
+      existing.completedCount !== rollup.completedCount ||
+      existing.totalDuration !== rollup.totalDuration
+    );
+  });
+  const leftover = stored.filter((rollup) => !expectedIds.has(rollup.id));
+  return [...mismatched, ...leftover].map((rollup) => rollup.id);
+};
+
+const repairOrphanedCategories = async (
+  data: ScanData,
+  repair: IntegrityRepair,
+  targetId?: string
+) => {
+  const categoryIds = findOrphanedCategories(data).map((c) => c.id);
+
+  await db.transaction(
+    "rw",
+    [db.projects, db.categories, db.timerSessions, db.tasks, db.interruptions],
+    async () => {
+      if (repair === "reassign") {
+        if (!targetId || !(await db.projects.get(targetId))) {
+          throw new Error("Pick a project to move the categories to");
+        }
+        // Everything recorded under the categories moves with them
+        const moved = { projectId: targetId, updatedAt: new Date() };
+        await db.categories.where("id").anyOf(categoryIds).modify(moved);
+        await db.timerSessions
+          .where("categoryId")
+          .anyOf(categoryIds)
+          .modify(moved);
+        await db.tasks.where("categoryId").anyOf(categoryIds).modify(moved);
+        await db.interruptions
+          .where("categoryId")
+          .anyOf(categoryIds)
+          .modify(moved);
+      } else {
+        await db.categories.bulkDelete(categoryIds);
+        await db.timerSessions.where("categoryId").anyOf(categoryIds).delete();
+        await db.tasks.where("categoryId").anyOf(categoryIds).delete();
+        await db.interruptions.where("categoryId").anyOf(categoryIds).delete();
+      }
+    }
+  );
+};
+
+const repairOrphanedSessions = async (
+  data: ScanData,
+  repair: IntegrityRepair,
+  targetId?: string
+) => {
+  const sessionIds = findOrphanedSessions(data).map((s) => s.id);
+
+  await db.transaction(
+    "rw",
+    [db.categories, db.timerSessions, db.interruptions],
+    async () => {
+      if (repair === "reassign") {
+        const category = targetId ? await db.categories.get(targetId) : null;
+        if (!category) {
+          throw new Error("Pick a category to move the sessions to");
+        }
+        await db.timerSessions.where("id").anyOf(sessionIds).modify({
+          projectId: category.projectId,
+          categoryId: category.id,
+          taskId: undefined,
+          updatedAt: new Date(),
+        });
+        await db.interruptions.where("sessionId").anyOf(sessionIds).modify({
+          projectId: category.projectId,
+          categoryId: category.id,
+          updatedAt: new Date(),
+        });
+      } else {
+        await db.timerSessions.bulkDelete(sessionIds);
+        await db.interruptions.where("sessionId").anyOf(sessionIds).delete();
+      }
+    }
+  );
+};
+
+// The categories table wins; categories only on the project row are added to
+// it, then the copy is dropped
+const resyncProjectCategories = async (data: ScanData) => {
+  const knownIds = new Set(data.categories.map((category) => category.id));
+  const projects = findProjectCategoryCopies(data);
+
+  await db.transaction("rw", [db.projects, db.categories], async () => {
+    const missing: Category[] = [];
+    projects.forEach((project) => {
+      (project.categories ?? []).forEach((category) => {
+        if (knownIds.has(category.id)) return;
+        knownIds.add(category.id);
+        missing.push({
+          ...category,
+          projectId: project.id,
+          updatedAt: new Date(),
+        });
+      });
+    });
+    await db.categories.bulkAdd(missing);
+    await db.projects
+      .where("id")
+      .anyOf(projects.map((project) => project.id))
+      .modify((project: ProjectRow) => {
+        delete project.categories;
+      });
+  });
+};
+
+// Resync trusts the recorded duration and moves the end time to match
+const repairInvalidSessionTimes = async (
+  data: ScanData,
+  repair: IntegrityRepair
+) => {
+  const sessions = findInvalidSessionTimes(data);
+
+  await db.transaction("rw", [db.timerSessions, db.interruptions], async () => {
+    if (repair === "delete") {
+      const sessionIds = sessions.map((session) => session.id);
+      await db.timerSessions.bulkDelete(sessionIds);
+      await db.interruptions.where("sessionId").anyOf(sessionIds).delete();
+      return;
+    }
+
+    await db.timerSessions.bulkPut(
+      sessions.map((session) => {
+        const actualDuration = Math.max(0, session.actualDuration);
+        return {
+          ...session,
+          actualDuration,
+          updatedAt: new Date(),
+          endTime: new Date(
+            new Date(session.startTime).getTime() + actualDuration
+          ),
+        };
+      })
+    );
+  });
+};
+
+// Integrity scan and repairs
+export const integrityService = {
+  async scan(): Promise<IntegrityReport> {
+    try {
+      const data = await loadScanData();
+      const issues: IntegrityIssue[] = [];
+
+      const orphanedCategories = findOrphanedCategories(data);
+      if (orphanedCategories.length > 0) {
+        issues.push({
+          kind: "orphanedCategories",
+          description: "Categories whose project no longer exists",
+          count: orphanedCategories.length,
+          examples: orphanedCategories
+            .slice(0, EXAMPLE_COUNT)
+            .map(
+              (category) =>
+                `"${category.name}" (missing project ${shortId(
+                  category.projectId
+                )})`
+            ),
+          repairs: ["reassign", "delete"],
+          reassignTo: "project",
+        });
+      }
+
+      const orphanedSessions = findOrphanedSessions(data);
+      if (orphanedSessions.length > 0) {
+        issues.push({
+          kind: "orphanedSessions",
+          description:
+            "Sessions pointing at a missing category, or at one from another project",
+          count: orphanedSessions.length,
+          examples: orphanedSessions
+            .slice(0, EXAMPLE_COUNT)
+            .map(describeSession),
+          repairs: ["reassign", "delete"],
+          reassignTo: "category",
+        });
+      }
+
+      const copies = findProjectCategoryCopies(data);
+      if (copies.length > 0) {
+        issues.push({
+          kind: "projectCategoryCopies",
+          description:
+            "Projects still carrying their own copy of their categories",
+          count: copies.length,
+          examples: copies
+            .slice(0, EXAMPLE_COUNT)
+            .map((project) => `"${project.name}"`),
+          repairs: ["resync"],
+        });
+      }
+
+      const invalidTimes = findInvalidSessionTimes(data);
+      if (invalidTimes.length > 0) {
+        issues.push({
+          kind: "invalidSessionTimes",
+          description: "Sessions that end before they start",
+          count: invalidTimes.length,
+          examples: invalidTimes.slice(0, EXAMPLE_COUNT).map(describeSession),
+          repairs: ["resync", "delete"],
+        });
+      }
+
+      const staleRollups = await countStaleRollups(data);
+      if (staleRollups.length > 0) {
+        issues.push({
+          kind: "staleRollups",
+          description: "Daily totals that no longer match their sessions",
+          count: staleRollups.length,
+          examples: staleRollups
+            .slice(0, EXAMPLE_COUNT)
+            .map((id) => id.split("|")[0]),
+          repairs: ["resync"],
+        });
+      }
+
+      return { issues, scannedAt: new Date() };
+    } catch (error) {
+      console.error("Error scanning database integrity:", error);
+      throw error;
+    }
+  },
+
+  // Apply one repair to every row with the issue. `targetId` is the project
+  // or category picked for a reassign.
+  async repair(
+    kind: IntegrityIssueKind,
+    repair: IntegrityRepair,
+    targetId?: string
+  ): Promise<void> {
+    try {
+      const data = await loadScanData();
+
+      switch (kind) {
+        case "orphanedCategories":
+          await repairOrphanedCategories(data, repair, targetId);
+          break;
+        case "orphanedSessions":
+          await repairOrphanedSessions(data, repair, targetId);
+          break;
+        case "projectCategoryCopies":
+          await resyncProjectCategories(data);
+          break;
+        case "invalidSessionTimes":
+          await repairInvalidSessionTimes(data, repair);
+          break;
+        case "staleRollups":
+          break;
+      }
+
+      // Every repair can change what the daily totals count
+      await rollupService.rebuild();
+      notifySessionsChanged();
+    } catch (error) {
+      console.error("Error repairing database integrity:", error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,166 @@
+import "fake-indexeddb/auto";
+import { afterEach, describe, expect, it } from "vitest";
+import { Dexie } from "dexie";
+import { LATEST_VERSION, MIGRATIONS, applyMigrations } from "./migrations";
+import {
+  VERSION_1_DATABASE,
+  VERSION_5_DATABASE,
+  type DatabaseFixture,
+} from "./__fixtures__/legacyDatabases";
+
+const openDatabases: Dexie[] = [];
+
+// Write the fixture with the schema of its own version, then reopen the
+// database with every migration, as the app does after an update
+const upgradeFixture = async (fixture: DatabaseFixture): Promise<Dexie> => {
+  const name = `fixture-v${fixture.version}-${Math.random()}`;
+
+  const legacy = new Dexie(name);
+  applyMigrations(legacy, MIGRATIONS.slice(0, fixture.version));
+  await legacy.open();
+  for (const [table, rows] of Object.entries(fixture.tables)) {
+    await legacy.table(table).bulkAdd(rows);
+  }
+  legacy.close();
+
+  const db = new Dexie(name);
+  applyMigrations(db);
+  await db.open();
+  openDatabases.push(db);
+  return db;
+};
+
+afterEach(async () => {
+  await Promise.all(openDatabases.splice(0).map((db) => db.delete()));
+});
+
+describe("applyMigrations", () => {
+  it("rejects steps that are out of order", () => {
+    expect(() =>
+      applyMigrations(new Dexie("out-of-order"), [MIGRATIONS[1]])
+    ).toThrow("Migration 2 is out of order; expected 1");
+  });
+
+  describe("from a version 1 database", () => {
+    it("reaches the latest version", async () => {
+      const db = await upgradeFixture(VERSION_1_DATABASE);
+      expect(db.verno).toBe(LATEST_VERSION);
+    });
+
+    it("moves categories off project rows into the categories table", async () => {
+      const db = await upgradeFixture(VERSION_1_DATABASE);
+
+      const categories = await db.table("categories").toArray();
+      expect(categories.map((category) => category.id).sort()).toEqual([
+        "review",
+        "writing",
+      ]);
+      expect(categories.every((c) => c.projectId === "project-1")).toBe(true);
+
+      const projects = await db.table("projects").toArray();
+      expect(projects).toHaveLength(1);
+      expect(projects[0]).not.toHaveProperty("categories");
+      expect(projects[0].name).toBe("Thesis");
+    });
+
+    it("builds daily rollups from the existing sessions", async () => {
+      const db = await upgradeFixture(VERSION_1_DATABASE);
+
+      const rollups = await db.table("dailyRollups").toArray();
+      expect(
+        rollups
+          .map((rollup) => [
+            rollup.date,
+            rollup.categoryId,
+            rollup.sessionCount,
+            rollup.completedCount,
+            rollup.totalDuration,
+          ])
+          .sort()
+      ).toEqual([
+        ["2024-01-02", "review", 1, 0, 10 * 60 * 1000],
+        ["2024-01-02", "writing", 1, 1, 25 * 60 * 1000],
+      ]);
+    });
+
+    it("keeps sessions and settings", async () => {
+      const db = await upgradeFixture(VERSION_1_DATABASE);
+
+      expect(await db.table("timerSessions").count()).toBe(2);
+      expect(await db.table("userSettings").get("default")).toMatchObject({
+        theme: "dark",
+      });
+    });
+  });
+
+  describe("from a version 5 database", () => {
+    it("reaches the latest version", async () => {
+      const db = await upgradeFixture(VERSION_5_DATABASE);
+      expect(db.verno).toBe(LATEST_VERSION);
+    });
+
+    it("moves categories off project rows without duplicating them", async () => {
+      const db = await upgradeFixture(VERSION_5_DATABASE);
+
+      const categories = await db.table("categories").toArray();
+      expect(categories.map((category) => category.id).sort()).toEqual([
+        "build",
+        "design",
+        "email",
+      ]);
+      expect(await db.table("categories").get("email")).toMatchObject({
+        projectId: "project-2",
+      });
+
+      const projects = await db.table("projects").toArray();
+      expect(projects).toHaveLength(2);
+      projects.forEach((project) => {
+        expect(project).not.toHaveProperty("categories");
+      });
+    });
+
+    it("builds daily rollups, leaving out sessions in the trash", async () => {
+      const db = await upgradeFixture(VERSION_5_DATABASE);
+
+      const rollups = await db.table("dailyRollups").toArray();
+      expect(
+        rollups
+          .map((rollup) => [
+            rollup.date,
+            rollup.projectId,
+            rollup.categoryId,
+            rollup.sessionCount,
+            rollup.completedCount,
+            rollup.totalDuration,
+          ])
+          .sort()
+      ).toEqual([
+        ["2024-03-04", "project-1", "design", 2, 1, 45 * 60 * 1000],
+        ["2024-03-05", "project-2", "email", 1, 1, 25 * 60 * 1000],
+      ]);
+      expect(rollups[0].lastStartTime).toBeInstanceOf(Date);
+    });
+
+    it("indexes sessions by project and start time", async () => {
+      const db = await upgradeFixture(VERSION_5_DATABASE);
+
+      const sessions = await db
+        .table("timerSessions")
+        .where("[projectId+startTime]")
+        .between(["project-1", Dexie.minKey], ["project-1", Dexie.maxKey])
+        .primaryKeys();
+      expect(sessions).toEqual(["session-1", "session-2", "session-4"]);
+    });
+
+    it("keeps tags, tasks and interruptions", async () => {
+      const db = await upgradeFixture(VERSION_5_DATABASE);
+
+      expect(
+        await db.table("timerSessions").where("tagIds").equals("tag-1").count()
+      ).toBe(1);
+      expect(await db.table("tasks").count()).toBe(1);
+      expect(await db.table("tags").count()).toBe(1);
+      expect(await db.table("interruptions").count()).toBe(1);
+    });
+  });
+});
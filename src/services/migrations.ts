@@ -0,0 +1,142 @@
+import type { Dexie, Transaction } from "dexie";
+import type { Category, TimerSession } from "../types";
+import { buildDailyRollups } from "../utils/rollups";
+
+// One numbered step in the schema's history. Dexie keeps every step so it can
+// bring a database up from any older version; `upgrade` runs once, when a
+// user's database first moves past `version`. Steps are never edited after
+// they ship: a change to the data model is a new step at the end.
+export interface Migration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+// Project rows from before version 6 carried their own copy of the project's
+// categories
+interface LegacyProjectRow {
+  id: string;
+  categories?: Category[];
+}
+
+// The categories table is the source of truth. Categories only found on the
+// project row are moved into it, then the copy on the row is dropped.
+const normalizeCategories = async (tx: Transaction): Promise<void> => {
+  const projects: LegacyProjectRow[] = await tx.table("projects").toArray();
+  const knownIds = new Set(
+    await tx.table("categories").toCollection().primaryKeys()
+  );
+
+  const missing: Category[] = [];
+  projects.forEach((project) => {
+    (project.categories ?? []).forEach((category) => {
+      if (knownIds.has(category.id)) return;
+      knownIds.add(category.id);
+      missing.push({ ...category, projectId: project.id });
+    });
+  });
+
+  await tx.table("categories").bulkAdd(missing);
+  await tx
+    .table("projects")
+    .toCollection()
+    .modify((project: LegacyProjectRow) => {
+      delete project.categories;
+    });
+};
+
+// Rollups for the sessions recorded before the table existed. Sessions in the
+// trash are left out, as they are from every rollup.
+const buildRollups = async (tx: Transaction): Promise<void> => {
+  const sessions: TimerSession[] = await tx.table("timerSessions").toArray();
+  await tx
+    .table("dailyRollups")
+    .bulkAdd(
+      buildDailyRollups(sessions.filter((session) => !session.deletedAt))
+    );
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Projects, categories, sessions and settings",
+    stores: {
+      projects: "id, name, status, createdAt",
+      categories: "id, projectId, name",
+      timerSessions: "id, projectId, categoryId, type, startTime, completed",
+      userSettings: "id",
+    },
+  },
+  {
+    version: 2,
+    description: "Checkpoints for recovering a running timer",
+    stores: {
+      timerCheckpoints: "id",
+    },
+  },
+  {
+    version: 3,
+    description: "Interruptions",
+    stores: {
+      interruptions: "id, sessionId, projectId, categoryId, createdAt",
+    },
+  },
+  {
+    version: 4,
+    description: "Tasks, and the task a session was spent on",
+    stores: {
+      timerSessions:
+        "id, projectId, categoryId, type, startTime, completed, taskId",
+      tasks: "id, projectId, categoryId, createdAt",
+    },
+  },
+  {
+    version: 5,
+    description: "Tags, with a multi-entry index on sessions",
+    stores: {
+      timerSessions:
+        "id, projectId, categoryId, type, startTime, completed, taskId, *tagIds",
+      tags: "id, name",
+    },
+  },
+  {
+    version: 6,
+    description:
+      "Categories live only in their table; compound indexes for sessions",
+    stores: {
+      timerSessions:
+        "id, projectId, categoryId, type, startTime, completed, taskId, *tagIds, [projectId+startTime], [categoryId+startTime]",
+    },
+    upgrade: normalizeCategories,
+  },
+  {
+    version: 7,
+    description: "Daily rollups per project, category and session type",
+    stores: {
+      dailyRollups: "id, date, projectId, [projectId+date]",
+    },
+    upgrade: buildRollups,
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Register every step with Dexie, checking they are numbered 1, 2, 3...
+export const applyMigrations = (
+  db: Dexie,
+  migrations: Migration[] = MIGRATIONS
+): void => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migration ${migration.version} is out of order; expected ${index + 1}`
+      );
+    }
+
+    const version = db.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) {
+      version.upgrade(migration.upgrade);
+    }
+  });
+};
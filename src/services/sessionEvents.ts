@@ -0,0 +1,33 @@
+// Lets views showing saved sessions refresh when sessions are added, edited
+// or removed, in this tab or any other
+const CHANNEL_NAME = "sinkyourtime-sessions";
+
+type SessionChangeListener = () => void;
+
+const listeners = new Set<SessionChangeListener>();
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = () => {
+      listeners.forEach((listener) => listener());
+    };
+  }
+  return channel;
+};
+
+export const subscribeToSessionChanges = (
+  listener: SessionChangeListener
+): (() => void) => {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const notifySessionsChanged = () => {
+  listeners.forEach((listener) => listener());
+  getChannel()?.postMessage("changed");
+};
@@ -0,0 +1,146 @@
+import type { UserSettings } from "../types";
+import { db } from "./database";
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_SCHEMA_VERSION,
+  parseStoredSettings,
+  validateSettings,
+} from "../utils/settingsSchema";
+
+// The one place settings are read and written. The database record is the
+// source of truth; everything else (the settings store, the theme, the
+// timer) subscribes here.
+const SETTINGS_ID = "default";
+const CHANNEL_NAME = "sinkyourtime-settings";
+
+// Only read before the database has loaded, so the first paint has the right
+// theme. Never read once the database record is in.
+const BOOT_CACHE_KEY = "userSettings";
+
+export class SettingsValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join("; "));
+    this.name = "SettingsValidationError";
+    this.problems = problems;
+  }
+}
+
+type SettingsListener = (
+  settings: UserSettings,
+  previous: UserSettings
+) => void;
+
+const listeners = new Set<SettingsListener>();
+let channel: BroadcastChannel | null = null;
+
+const readBootCache = (): UserSettings => {
+  try {
+    const stored = localStorage.getItem(BOOT_CACHE_KEY);
+    return parseStoredSettings(stored ? JSON.parse(stored) : undefined);
+  } catch (error) {
+    console.error("Error reading cached settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let current: UserSettings = readBootCache();
+
+const setCurrent = (settings: UserSettings) => {
+  const previous = current;
+  current = settings;
+  try {
+    localStorage.setItem(BOOT_CACHE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error caching settings:", error);
+  }
+  listeners.forEach((listener) => listener(settings, previous));
+};
+
+// Another tab saved settings; read them back from the database
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = () => {
+      settingsRepository.load().catch((error) => {
+        console.error("Error reloading settings:", error);
+      });
+    };
+  }
+  return channel;
+};
+
+const save = async (settings: UserSettings) => {
+  await db.userSettings.put({
+    ...settings,
+    id: SETTINGS_ID,
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+  });
+  setCurrent(settings);
+  getChannel()?.postMessage("changed");
+};
+
+export const settingsRepository = {
+  // The settings as last loaded or saved
+  get(): UserSettings {
+    return current;
+  },
+
+  // Read the stored record, upgrading it to the current schema if needed
+  async load(): Promise<UserSettings> {
+    try {
+      getChannel();
+      const stored = await db.userSettings.get(SETTINGS_ID);
+      const settings = parseStoredSettings(stored);
+      if (stored?.schemaVersion !== SETTINGS_SCHEMA_VERSION) {
+        await db.userSettings.put({
+          ...settings,
+          id: SETTINGS_ID,
+          schemaVersion: SETTINGS_SCHEMA_VERSION,
+        });
+      }
+      setCurrent(settings);
+      return settings;
+    } catch (error) {
+      console.error("Error loading settings:", error);
+      throw error;
+    }
+  },
+
+  // Throws SettingsValidationError, leaving the settings unchanged, if any
+  // field is out of range
+  async update(updates: Partial<UserSettings>): Promise<UserSettings> {
+    const problems = validateSettings(updates);
+    if (problems.length > 0) {
+      throw new SettingsValidationError(problems);
+    }
+
+    try {
+      const settings = { ...current, ...updates };
+      await save(settings);
+      return settings;
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      throw error;
+    }
+  },
+
+  async reset(): Promise<UserSettings> {
+    try {
+      await save(DEFAULT_SETTINGS);
+      return DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error("Error resetting settings:", error);
+      throw error;
+    }
+  },
+
+  subscribe(listener: SettingsListener): () => void {
+    getChannel();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,247 @@
+import toast from "react-hot-toast";
+import { useTimerStore } from "../stores/timerStore";
+import { useSettingsStore } from "../stores/settingsStore";
+import { isTimerLeader, subscribeToLeadership } from "./timerSync";
+import { getActivePreset } from "../utils/presets";
+import { resolveTimerSettings } from "../utils/timerSettings";
+
+// How often the store is asked to refresh its display while running
+const TICK_INTERVAL_MS = 250;
+
+type TimerCompletionListener = (mode: string) => void;
+
+const completionListeners = new Set<TimerCompletionListener>();
+
+// Let components react to a finished countdown (e.g. to animate it)
+export const subscribeToTimerCompletion = (
+  listener: TimerCompletionListener
+): (() => void) => {
+  completionListeners.add(listener);
+  return () => {
+    completionListeners.delete(listener);
+  };
+};
+
+export const playNotificationSound = () => {
+  try {
+    const audioContext = new (window.AudioContext ||
+      (window as unknown as { webkitAudioContext: typeof AudioContext })
+        .webkitAudioContext)();
+    const oscillator = audioContext.createOscillator();
+    const gainNode = audioContext.createGain();
+
+    oscillator.connect(gainNode);
+    gainNode.connect(audioContext.destination);
+
+    oscillator.frequency.setValueAtTime(800, audioContext.currentTime);
+    oscillator.frequency.setValueAtTime(600, audioContext.currentTime + 0.1);
+    oscillator.frequency.setValueAtTime(800, audioContext.currentTime + 0.2);
+
+    gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(
+      0.01,
+      audioContext.currentTime + 0.3
+    );
+
+    oscillator.start(audioContext.currentTime);
+    oscillator.stop(audioContext.currentTime + 0.3);
+  } catch (error) {
+    console.error("Error playing notification sound:", error);
+  }
+};
+
+const showBrowserNotification = (message: string) => {
+  if (!("Notification" in window)) return;
+
+  if (Notification.permission === "granted") {
+    new Notification("Sink Your Time", {
+      body: message,
+      icon: "/favicon.ico",
+    });
+  } else if (Notification.permission === "default") {
+    Notification.requestPermission();
+  }
+};
+
+// Save the finished session, notify the user and advance to the next step of
+// the cycle
+const handleTimerComplete = async () => {
+  const timer = useTimerStore.getState();
+  const settings = resolveTimerSettings(
+    useSettingsStore.getState().settings,
+    timer.currentProject
+  );
+  const finishedMode = timer.currentMode;
+
+  completionListeners.forEach((listener) => listener(finishedMode));
+
+  await timer.completeSession();
+
+  // The stopwatch is outside the cycle; just get ready for the next one
+  if (finishedMode === "stopwatch") {
+    timer.resetTimer();
+    toast.success("Stopwatch session saved!", { icon: "✅" });
+    return;
+  }
+
+  if (finishedMode === "work") {
+    timer.incrementPomodoros();
+  }
+
+  // Move on to the next interval of the active preset's cycle
+  const preset = getActivePreset(settings);
+  const nextIndex = (timer.cycleIndex + 1) % preset.steps.length;
+  const nextMode = preset.steps[nextIndex].mode;
+  timer.setCycleStep(nextIndex);
+
+  if (nextMode === "long_break") {
+    toast.success("Work session complete! Time for a long break.", {
+      icon: "🎉",
+      duration: 4000,
+    });
+  } else if (nextMode === "short_break") {
+    toast.success("Work session complete! Time for a short break.", {
+      icon: "☕",
+      duration: 4000,
+    });
+  } else {
+    toast.success(
+      finishedMode === "work"
+        ? "Work session complete! On to the next one."
+        : "Break complete! Ready to work?",
+      {
+        icon: "💪",
+        duration: 4000,
+      }
+    );
+  }
+
+  // Auto-start break if enabled
+  if (nextMode !== "work" && settings.autoStartBreaks) {
+    setTimeout(() => {
+      useTimerStore.getState().startTimer();
+    }, 1000);
+  }
+
+  // Play notification sound
+  if (settings.audioEnabled) {
+    playNotificationSound();
+  }
+
+  // Show browser notification
+  if (settings.notificationsEnabled) {
+    showBrowserNotification(
+      nextMode !== "work"
+        ? "Work session complete! Time for a break."
+        : finishedMode === "work"
+        ? "Work session complete! On to the next one."
+        : "Break complete! Ready to work?"
+    );
+  }
+};
+
+// Let a work session run on past zero until the user finishes it
+const handleOvertimeStart = () => {
+  const timer = useTimerStore.getState();
+  const settings = resolveTimerSettings(
+    useSettingsStore.getState().settings,
+    timer.currentProject
+  );
+  timer.startOvertime();
+
+  toast("Planned time reached. Keep going and finish when you're ready.", {
+    icon: "⏱️",
+    duration: 4000,
+  });
+
+  if (settings.audioEnabled) {
+    playNotificationSound();
+  }
+
+  if (settings.notificationsEnabled) {
+    showBrowserNotification("Planned time reached. Now in overtime.");
+  }
+};
+
+// Drive the timer for the whole app, independent of the mounted route.
+// Returns a cleanup function that stops the engine.
+export const startTimerEngine = (): (() => void) => {
+  let intervalId: number | null = null;
+  let isCompleting = false;
+
+  const stopInterval = () => {
+    if (intervalId !== null) {
+      clearInterval(intervalId);
+      intervalId = null;
+    }
+  };
+
+  const syncInterval = (isRunning: boolean) => {
+    if (isRunning && intervalId === null) {
+      intervalId = window.setInterval(() => {
+        useTimerStore.getState().tick();
+      }, TICK_INTERVAL_MS);
+    } else if (!isRunning) {
+      stopInterval();
+    }
+  };
+
+  // Only the leader tab completes sessions, so each one is saved once
+  const checkCompletion = async () => {
+    const state = useTimerStore.getState();
+    if (isCompleting || !isTimerLeader()) return;
+
+    if (!state.finishRequested) {
+      if (!state.isRunning || state.timeLeft > 0 || state.isOvertime) return;
+
+      if (
+        state.currentMode === "work" &&
+        useSettingsStore.getState().settings.overtimeEnabled
+      ) {
+        handleOvertimeStart();
+        return;
+      }
+    }
+
+    isCompleting = true;
+    try {
+      await handleTimerComplete();
+    } catch (error) {
+      console.error("Error completing timer session:", error);
+    } finally {
+      isCompleting = false;
+    }
+  };
+
+  const unsubscribe = useTimerStore.subscribe((state, previousState) => {
+    if (state.isRunning !== previousState.isRunning) {
+      syncInterval(state.isRunning);
+    }
+    checkCompletion();
+  });
+
+  // A tab taking over may inherit a countdown that has already run out
+  const unsubscribeLeadership = subscribeToLeadership((isLeader) => {
+    if (isLeader) {
+      useTimerStore.getState().tick();
+      checkCompletion();
+    }
+  });
+
+  // Catch up immediately when a throttled background tab becomes visible
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") {
+      useTimerStore.getState().tick();
+    }
+  };
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  syncInterval(useTimerStore.getState().isRunning);
+
+  return () => {
+    unsubscribe();
+    unsubscribeLeadership();
+    stopInterval();
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+  };
+};
@@ -0,0 +1,241 @@
+import type { TimerCheckpoint, TimerState } from "../types";
+import {
+  useTimerStore,
+  buildSessionFromState,
+  getRemainingMs,
+} from "../stores/timerStore";
+import {
+  timerCheckpointService,
+  projectService,
+  sessionService,
+  taskService,
+} from "./database";
+import { validateSessionData, logSessionData } from "../utils/performance";
+
+// How often a running timer refreshes its checkpoint
+const HEARTBEAT_INTERVAL_MS = 10000;
+
+// A checkpoint this fresh means the app was only reloaded, not closed
+const RECENT_CHECKPOINT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+// A checkpointed session that needs the user to decide what happens to it
+export interface TimerRecovery {
+  checkpoint: TimerCheckpoint;
+  state: Partial<TimerState>;
+}
+
+const createCheckpoint = (state: TimerState): Omit<TimerCheckpoint, "id"> => ({
+  isRunning: state.isRunning,
+  currentMode: state.currentMode,
+  totalTime: state.totalTime,
+  remainingMs: state.remainingMs,
+  deadline: state.deadline,
+  projectId: state.currentProject?.id,
+  categoryId: state.currentCategory?.id,
+  taskId: state.currentTask?.id,
+  tagIds: state.tagIds,
+  completedPomodoros: state.completedPomodoros,
+  sessionStartTime: state.sessionStartTime,
+  sessionId: state.sessionId,
+  pauses: state.pauses,
+  isOvertime: state.isOvertime,
+  cycleIndex: state.cycleIndex,
+  savedAt: new Date(),
+});
+
+// Turn a checkpoint back into timer state, resolving project and category
+const checkpointToState = async (
+  checkpoint: TimerCheckpoint
+): Promise<Partial<TimerState>> => {
+  const project = checkpoint.projectId
+    ? await projectService.getById(checkpoint.projectId)
+    : undefined;
+  const category = project?.categories.find(
+    (c) => c.id === checkpoint.categoryId
+  );
+  const task = checkpoint.taskId
+    ? await taskService.getById(checkpoint.taskId)
+    : undefined;
+
+  return {
+    isRunning: checkpoint.isRunning,
+    currentMode: checkpoint.currentMode,
+    totalTime: checkpoint.totalTime,
+    remainingMs: checkpoint.remainingMs,
+    deadline: checkpoint.deadline,
+    currentProject: project,
+    currentCategory: category,
+    currentTask: task,
+    tagIds: checkpoint.tagIds ?? [],
+    completedPomodoros: checkpoint.completedPomodoros,
+    sessionStartTime: checkpoint.sessionStartTime,
+    sessionId: checkpoint.sessionId,
+    pauses: checkpoint.pauses ?? [],
+    isOvertime: checkpoint.isOvertime ?? false,
+    cycleIndex: checkpoint.cycleIndex ?? 0,
+  };
+};
+
+// Freeze a recovered state at the moment it was last checkpointed, so time
+// spent with the app closed counts as a pause rather than as focus
+const pauseAtCheckpoint = (
+  state: Partial<TimerState>,
+  savedAt: Date
+): Partial<TimerState> => ({
+  ...state,
+  isRunning: false,
+  deadline: undefined,
+  remainingMs: state.isOvertime
+    ? getRemainingMs(state as TimerState, savedAt.getTime())
+    : Math.max(0, getRemainingMs(state as TimerState, savedAt.getTime())),
+  pauses: state.isRunning
+    ? [...(state.pauses ?? []), { start: savedAt }]
+    : state.pauses,
+});
+
+// Whether a running timer carried on through the reload. A countdown is live
+// until its deadline. The stopwatch and overtime count up from a deadline
+// already past, so they are live only if the checkpoint is recent.
+const isStillCounting = (checkpoint: TimerCheckpoint) => {
+  if (!checkpoint.isRunning || checkpoint.deadline === undefined) return false;
+  if (checkpoint.isOvertime || checkpoint.currentMode === "stopwatch") {
+    return (
+      Date.now() - new Date(checkpoint.savedAt).getTime() <=
+      RECENT_CHECKPOINT_MS
+    );
+  }
+  return checkpoint.deadline > Date.now();
+};
+
+// Restore the last checkpoint on launch. A timer still running (e.g. after a
+// reload) resumes on its own; anything else is handed back for the user to
+// resume, save or discard.
+export const recoverTimerCheckpoint =
+  async (): Promise<TimerRecovery | null> => {
+    const checkpoint = await timerCheckpointService.get();
+    if (!checkpoint) return null;
+
+    const state = await checkpointToState(checkpoint);
+
+    if (!checkpoint.sessionStartTime || isStillCounting(checkpoint)) {
+      useTimerStore.getState().restoreState(state);
+      return null;
+    }
+
+    // Keep the pomodoro count while the user decides
+    useTimerStore
+      .getState()
+      .restoreState({ completedPomodoros: checkpoint.completedPomodoros });
+    return { checkpoint, state };
+  };
+
+// Pick the recovered session back up, paused where it was left
+export const resumeRecoveredSession = (recovery: TimerRecovery) => {
+  useTimerStore
+    .getState()
+    .restoreState(
+      pauseAtCheckpoint(recovery.state, recovery.checkpoint.savedAt)
+    );
+};
+
+// Save the orphaned session as it stood at its last checkpoint
+export const saveRecoveredSession = async (recovery: TimerRecovery) => {
+  const session = buildSessionFromState(
+    recovery.state as TimerState,
+    recovery.checkpoint.savedAt.getTime()
+  );
+  if (!session) {
+    throw new Error("The recovered session is missing its project or category");
+  }
+
+  const validation = validateSessionData(session);
+  if (!validation.isValid) {
+    throw new Error(
+      `Session validation failed: ${validation.errors.join(", ")}`
+    );
+  }
+
+  logSessionData(session, "Saving Recovered Session");
+  await sessionService.create(session);
+  discardRecoveredSession(recovery);
+};
+
+// Drop the recovered session but keep the timer on the same mode
+export const discardRecoveredSession = (recovery: TimerRecovery) => {
+  const { state } = recovery;
+  useTimerStore.getState().restoreState({
+    currentMode: state.currentMode,
+    cycleIndex: state.cycleIndex,
+    currentProject: state.currentProject,
+    currentCategory: state.currentCategory,
+    currentTask: state.currentTask,
+    tagIds: state.tagIds,
+  });
+  useTimerStore.getState().resetTimer();
+};
+
+// Checkpoint the timer whenever it changes (plus a heartbeat while running)
+// and warn before closing the tab on an unsaved session.
+// Returns a cleanup function.
+export const startTimerPersistence = (): (() => void) => {
+  let heartbeatId: number | null = null;
+
+  const saveCheckpoint = () => {
+    timerCheckpointService
+      .save(createCheckpoint(useTimerStore.getState()))
+      .catch(() => {
+        // Already logged by the service; the next change will retry
+      });
+  };
+
+  const syncHeartbeat = (isRunning: boolean) => {
+    if (isRunning && heartbeatId === null) {
+      heartbeatId = window.setInterval(saveCheckpoint, HEARTBEAT_INTERVAL_MS);
+    } else if (!isRunning && heartbeatId !== null) {
+      clearInterval(heartbeatId);
+      heartbeatId = null;
+    }
+  };
+
+  const unsubscribe = useTimerStore.subscribe((state, previousState) => {
+    // Display ticks are derived from the deadline and need no checkpoint
+    const hasChanged =
+      state.isRunning !== previousState.isRunning ||
+      state.currentMode !== previousState.currentMode ||
+      state.totalTime !== previousState.totalTime ||
+      state.remainingMs !== previousState.remainingMs ||
+      state.deadline !== previousState.deadline ||
+      state.currentProject?.id !== previousState.currentProject?.id ||
+      state.currentCategory?.id !== previousState.currentCategory?.id ||
+      state.currentTask?.id !== previousState.currentTask?.id ||
+      state.tagIds !== previousState.tagIds ||
+      state.completedPomodoros !== previousState.completedPomodoros ||
+      state.sessionStartTime !== previousState.sessionStartTime ||
+      state.pauses !== previousState.pauses ||
+      state.isOvertime !== previousState.isOvertime ||
+      state.cycleIndex !== previousState.cycleIndex;
+
+    if (hasChanged) {
+      saveCheckpoint();
+      syncHeartbeat(state.isRunning);
+    }
+  });
+
+  const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+    saveCheckpoint();
+    if (useTimerStore.getState().sessionStartTime) {
+      e.preventDefault();
+      e.returnValue = "";
+    }
+  };
+  window.addEventListener("beforeunload", handleBeforeUnload);
+
+  saveCheckpoint();
+  syncHeartbeat(useTimerStore.getState().isRunning);
+
+  return () => {
+    unsubscribe();
+    syncHeartbeat(false);
+    window.removeEventListener("beforeunload", handleBeforeUnload);
+  };
+};
@@ -0,0 +1,230 @@
+import type { TimerState } from "../types";
+import {
+  useTimerStore,
+  setTimerCommandForwarder,
+  type TimerCommand,
+} from "../stores/timerStore";
+
+// Only one tab owns the timer at a time: it holds this lock, runs every
+// command and broadcasts its state. The other tabs mirror that state and
+// forward their commands to it.
+const LEADER_LOCK_NAME = "sinkyourtime-timer-leader";
+const CHANNEL_NAME = "sinkyourtime-timer";
+
+type TimerSyncMessage =
+  | { type: "state"; state: Partial<TimerState> }
+  | { type: "request-state" }
+  | { type: "command"; id: string; command: TimerCommand }
+  | { type: "command-result"; id: string; error?: string };
+
+// A forwarded command still waiting for the leader's result
+interface PendingCommand {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+type LeadershipListener = (isLeader: boolean) => void;
+
+let isLeader = true;
+let resolveRole: ((isLeader: boolean) => void) | null = null;
+let rolePromise: Promise<boolean> = Promise.resolve(true);
+const leadershipListeners = new Set<LeadershipListener>();
+
+// Whether this tab owns the timer. Tabs without cross-tab support always do.
+export const isTimerLeader = (): boolean => isLeader;
+
+// Resolves once this tab knows whether it owns the timer
+export const waitForTimerRole = (): Promise<boolean> => rolePromise;
+
+export const subscribeToLeadership = (
+  listener: LeadershipListener
+): (() => void) => {
+  leadershipListeners.add(listener);
+  return () => {
+    leadershipListeners.delete(listener);
+  };
+};
+
+const setLeader = (nextIsLeader: boolean) => {
+  isLeader = nextIsLeader;
+  resolveRole?.(nextIsLeader);
+  resolveRole = null;
+  leadershipListeners.forEach((listener) => listener(nextIsLeader));
+};
+
+// The serializable part of the timer; timeLeft is derived on arrival
+const getTimerSnapshot = (state: TimerState): Partial<TimerState> => ({
+  isRunning: state.isRunning,
+  currentMode: state.currentMode,
+  totalTime: state.totalTime,
+  remainingMs: state.remainingMs,
+  deadline: state.deadline,
+  currentProject: state.currentProject,
+  currentCategory: state.currentCategory,
+  currentTask: state.currentTask,
+  tagIds: state.tagIds,
+  completedPomodoros: state.completedPomodoros,
+  sessionStartTime: state.sessionStartTime,
+  sessionId: state.sessionId,
+  pauses: state.pauses,
+  isOvertime: state.isOvertime,
+  cycleIndex: state.cycleIndex,
+});
+
+// Run a command forwarded from another tab against the local store.
+// Resolves with the error message if it failed.
+const runCommand = async (
+  command: TimerCommand
+): Promise<string | undefined> => {
+  const action = useTimerStore.getState()[command.action] as (
+    ...args: unknown[]
+  ) => unknown;
+  try {
+    await action(...command.args);
+  } catch (error) {
+    console.error(`Error running forwarded ${command.action}:`, error);
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+// Elect a leader tab and keep every tab's timer in step with it.
+// Returns a cleanup function.
+export const startTimerSync = (): (() => void) => {
+  if (typeof BroadcastChannel === "undefined" || !navigator.locks) {
+    rolePromise = Promise.resolve(true);
+    setLeader(true);
+    return () => {};
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const post = (message: TimerSyncMessage) => channel.postMessage(message);
+  let isStopped = false;
+  let releaseLock: () => void = () => {};
+  const lockHeld = new Promise<void>((resolve) => {
+    releaseLock = resolve;
+  });
+
+  rolePromise = new Promise<boolean>((resolve) => {
+    resolveRole = resolve;
+  });
+
+  const broadcastState = () => {
+    post({ type: "state", state: getTimerSnapshot(useTimerStore.getState()) });
+  };
+
+  // Commands this tab forwarded, by id, until the leader replies
+  const pendingCommands = new Map<string, PendingCommand>();
+
+  // A leader that closed mid-command never replies
+  const rejectPendingCommands = () => {
+    pendingCommands.forEach(({ reject }) =>
+      reject(new Error("The tab running the timer closed"))
+    );
+    pendingCommands.clear();
+  };
+
+  const forwardToLeader = (command: TimerCommand) =>
+    new Promise<void>((resolve, reject) => {
+      const id = crypto.randomUUID();
+      pendingCommands.set(id, { resolve, reject });
+      post({ type: "command", id, command });
+    });
+
+  const becomeLeader = () => {
+    if (isStopped) return;
+    rejectPendingCommands();
+    setTimerCommandForwarder(null);
+    setLeader(true);
+    broadcastState();
+  };
+
+  const becomeFollower = () => {
+    if (isStopped) return;
+    setTimerCommandForwarder(forwardToLeader);
+    setLeader(false);
+    post({ type: "request-state" });
+  };
+
+  channel.onmessage = (event: MessageEvent<TimerSyncMessage>) => {
+    const message = event.data;
+    if (isLeader) {
+      if (message.type === "command") {
+        runCommand(message.command).then((error) =>
+          post({ type: "command-result", id: message.id, error })
+        );
+      } else if (message.type === "request-state") {
+        broadcastState();
+      }
+    } else if (message.type === "state") {
+      useTimerStore.getState().restoreState(message.state);
+    } else if (message.type === "command-result") {
+      // Every follower hears the reply; only the one that asked settles it
+      const pending = pendingCommands.get(message.id);
+      if (!pending) return;
+      pendingCommands.delete(message.id);
+      if (message.error === undefined) {
+        pending.resolve();
+      } else {
+        pending.reject(new Error(message.error));
+      }
+    }
+  };
+
+  // Display ticks are derived from the deadline, so only real changes go out
+  const unsubscribe = useTimerStore.subscribe((state, previousState) => {
+    if (!isLeader) return;
+    const hasChanged =
+      state.isRunning !== previousState.isRunning ||
+      state.currentMode !== previousState.currentMode ||
+      state.totalTime !== previousState.totalTime ||
+      state.remainingMs !== previousState.remainingMs ||
+      state.deadline !== previousState.deadline ||
+      state.currentProject !== previousState.currentProject ||
+      state.currentCategory !== previousState.currentCategory ||
+      state.currentTask !== previousState.currentTask ||
+      state.tagIds !== previousState.tagIds ||
+      state.completedPomodoros !== previousState.completedPomodoros ||
+      state.sessionStartTime !== previousState.sessionStartTime ||
+      state.pauses !== previousState.pauses ||
+      state.isOvertime !== previousState.isOvertime ||
+      state.cycleIndex !== previousState.cycleIndex;
+
+    if (hasChanged) {
+      broadcastState();
+    }
+  });
+
+  // Take the lock if it is free; otherwise follow and queue up for it, so a
+  // waiting tab takes over as soon as the leader closes
+  navigator.locks
+    .request(LEADER_LOCK_NAME, { ifAvailable: true }, async (lock) => {
+      if (lock) {
+        becomeLeader();
+        return lockHeld;
+      }
+
+      becomeFollower();
+      navigator.locks
+        .request(LEADER_LOCK_NAME, async () => {
+          becomeLeader();
+          return lockHeld;
+        })
+        .catch((error) => {
+          console.error("Error waiting for timer leadership:", error);
+        });
+    })
+    .catch((error) => {
+      // Without a lock there is no way to coordinate; act alone
+      console.error("Error electing timer leader tab:", error);
+      becomeLeader();
+    });
+
+  return () => {
+    isStopped = true;
+    rejectPendingCommands();
+    unsubscribe();
+    channel.close();
+    releaseLock();
+    setTimerCommandForwarder(null);
+  };
+};
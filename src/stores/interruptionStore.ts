@@ -0,0 +1,78 @@
+import { create } from "zustand";
+import type { Interruption } from "../types";
+import { interruptionService } from "../services/database";
+
+interface InterruptionStore {
+  interruptions: Interruption[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadInterruptions: () => Promise<void>;
+  logInterruption: (
+    interruption: Omit<Interruption, "id" | "createdAt" | "reviewed">
+  ) => Promise<void>;
+  setReviewed: (id: string, reviewed: boolean) => Promise<void>;
+  markAllReviewed: () => Promise<void>;
+  deleteInterruption: (id: string) => Promise<void>;
+}
+
+export const useInterruptionStore = create<InterruptionStore>((set, get) => ({
+  interruptions: [],
+  isLoading: false,
+  error: null,
+
+  loadInterruptions: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const interruptions = await interruptionService.getAll();
+      set({ interruptions, isLoading: false });
+    } catch (error) {
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to load interruptions",
+        isLoading: false,
+      });
+    }
+  },
+
+  logInterruption: async (interruptionData) => {
+    const interruption = await interruptionService.create(interruptionData);
+    set({ interruptions: [interruption, ...get().interruptions] });
+  },
+
+  setReviewed: async (id, reviewed) => {
+    await interruptionService.update(id, { reviewed });
+    set({
+      interruptions: get().interruptions.map((interruption) =>
+        interruption.id === id ? { ...interruption, reviewed } : interruption
+      ),
+    });
+  },
+
+  markAllReviewed: async () => {
+    const unreviewed = get().interruptions.filter((i) => !i.reviewed);
+    await Promise.all(
+      unreviewed.map((interruption) =>
+        interruptionService.update(interruption.id, { reviewed: true })
+      )
+    );
+    set({
+      interruptions: get().interruptions.map((interruption) => ({
+        ...interruption,
+        reviewed: true,
+      })),
+    });
+  },
+
+  deleteInterruption: async (id) => {
+    await interruptionService.delete(id);
+    set({
+      interruptions: get().interruptions.filter(
+        (interruption) => interruption.id !== id
+      ),
+    });
+  },
+}));
@@ -1,6 +1,19 @@
 import { create } from "zustand";
 import type { Project, Category } from "../types";
 import { projectService, categoryService } from "../services/database";
+import { SettingsValidationError } from "../services/settingsRepository";
+import { useTimerStore } from "./timerStore";
+import { useTaskStore } from "./taskStore";
+import { useInterruptionStore } from "./interruptionStore";
+import { getDuplicateName } from "../utils/projectTemplates";
+import { validateOverrides } from "../utils/timerSettings";
+
+// Tasks and interruptions go to and from the trash with their project
+const reloadProjectItems = () =>
+  Promise.all([
+    useTaskStore.getState().loadTasks(),
+    useInterruptionStore.getState().loadInterruptions(),
+  ]);
 
 interface ProjectStore {
   projects: Project[];
@@ -12,15 +25,20 @@ interface ProjectStore {
   // Actions
   loadProjects: () => Promise<void>;
   createProject: (
-    project: Omit<Project, "id" | "createdAt" | "updatedAt">
+    project: Omit<Project, "id" | "createdAt" | "updatedAt">,
+    categoryNames?: string[]
   ) => Promise<void>;
   updateProject: (id: string, updates: Partial<Project>) => Promise<void>;
+  duplicateProject: (id: string) => Promise<Project | undefined>;
   deleteProject: (id: string) => Promise<void>;
+  restoreProject: (id: string) => Promise<void>;
   setCurrentProject: (project: Project | null) => void;
   setCurrentCategory: (category: Category | null) => void;
   createCategory: (category: Omit<Category, "id">) => Promise<void>;
   updateCategory: (id: string, updates: Partial<Category>) => Promise<void>;
   deleteCategory: (id: string) => Promise<void>;
+  restoreCategory: (id: string) => Promise<void>;
+  mergeCategory: (sourceId: string, targetId: string) => Promise<void>;
   clearError: () => void;
 }
 
@@ -52,6 +70,14 @@ const saveCurrentProjectIdToStorage = (projectId: string | null): void => {
   }
 };
 
+// Project overrides follow the same limits as the global timer settings
+const assertValidOverrides = (project: Partial<Project>) => {
+  const problems = validateOverrides(project.settingsOverrides);
+  if (problems.length > 0) {
+    throw new SettingsValidationError(problems);
+  }
+};
+
 export const useProjectStore = create<ProjectStore>((set, get) => ({
   projects: [],
   currentProject: null,
@@ -98,10 +124,17 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     }
   },
 
-  createProject: async (projectData) => {
+  // Throws SettingsValidationError if the project's timer overrides are out
+  // of range
+  // Rejects, saving nothing, if the project is invalid or can't be saved
+  createProject: async (projectData, categoryNames) => {
     set({ isLoading: true, error: null });
     try {
-      const newProject = await projectService.create(projectData);
+      assertValidOverrides(projectData);
+      const newProject = await projectService.create(
+        projectData,
+        categoryNames
+      );
       const state = get();
       set({
         projects: [...state.projects, newProject],
@@ -113,12 +146,16 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
           error instanceof Error ? error.message : "Failed to create project",
         isLoading: false,
       });
+      throw error;
     }
   },
 
+  // Rejects, leaving the project as it was, if the change is invalid or
+  // can't be saved
   updateProject: async (id, updates) => {
     set({ isLoading: true, error: null });
     try {
+      assertValidOverrides(updates);
       await projectService.update(id, updates);
       const state = get();
       const updatedProjects = state.projects.map((project) =>
@@ -139,9 +176,34 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
           error instanceof Error ? error.message : "Failed to update project",
         isLoading: false,
       });
+      throw error;
     }
   },
 
+  // Copy a project's setup, categories included, without its sessions
+  duplicateProject: async (id) => {
+    const state = get();
+    const project = state.projects.find((p) => p.id === id);
+    if (!project) return undefined;
+
+    const newProject = await projectService.create(
+      {
+        name: getDuplicateName(
+          project,
+          state.projects.map((p) => p.name)
+        ),
+        description: project.description,
+        color: project.color,
+        status: "active",
+        categories: [],
+        settingsOverrides: project.settingsOverrides,
+      },
+      project.categories.map((category) => category.name)
+    );
+    set({ projects: [...get().projects, newProject] });
+    return newProject;
+  },
+
   deleteProject: async (id) => {
     set({ isLoading: true, error: null });
     try {
@@ -158,15 +220,23 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
         // Remove the project ID from localStorage
         saveCurrentProjectIdToStorage(null);
       }
+      await reloadProjectItems();
     } catch (error) {
       set({
         error:
           error instanceof Error ? error.message : "Failed to delete project",
         isLoading: false,
       });
+      throw error;
     }
   },
 
+  // Bring a project back from the trash with what was deleted alongside it
+  restoreProject: async (id) => {
+    await projectService.restore(id);
+    await Promise.all([get().loadProjects(), reloadProjectItems()]);
+  },
+
   setCurrentProject: (project) => {
     set({ currentProject: project, currentCategory: null });
     // Save the selected project ID to localStorage
@@ -295,6 +365,44 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
           error instanceof Error ? error.message : "Failed to delete category",
         isLoading: false,
       });
+      throw error;
+    }
+  },
+
+  restoreCategory: async (id) => {
+    await categoryService.restore(id);
+    await get().loadProjects();
+  },
+
+  // Fold one category into another; the source goes to the trash. A timer on
+  // the source moves to the target, so its session isn't saved into the trash.
+  mergeCategory: async (sourceId, targetId) => {
+    await categoryService.merge(sourceId, targetId);
+    const state = get();
+
+    const updatedProjects = state.projects.map((project) => ({
+      ...project,
+      categories: project.categories.filter(
+        (category) => category.id !== sourceId
+      ),
+    }));
+    const target = updatedProjects
+      .flatMap((project) => project.categories)
+      .find((category) => category.id === targetId);
+
+    set({
+      projects: updatedProjects,
+      currentProject: state.currentProject
+        ? updatedProjects.find((p) => p.id === state.currentProject!.id) ?? null
+        : null,
+      ...(state.currentCategory?.id === sourceId && {
+        currentCategory: target ?? null,
+      }),
+    });
+
+    const timer = useTimerStore.getState();
+    if (target && timer.currentCategory?.id === sourceId) {
+      timer.setCategory(target);
     }
   },
 
@@ -0,0 +1,58 @@
+import { create } from "zustand";
+import type { Tag } from "../types";
+import { tagService } from "../services/database";
+
+interface TagStore {
+  tags: Tag[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadTags: () => Promise<void>;
+  createTag: (tag: Omit<Tag, "id" | "createdAt">) => Promise<Tag>;
+  updateTag: (id: string, updates: Partial<Tag>) => Promise<void>;
+  deleteTag: (id: string) => Promise<void>;
+}
+
+export const useTagStore = create<TagStore>((set, get) => ({
+  tags: [],
+  isLoading: false,
+  error: null,
+
+  loadTags: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const tags = await tagService.getAll();
+      set({ tags, isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : "Failed to load tags",
+        isLoading: false,
+      });
+    }
+  },
+
+  createTag: async (tagData) => {
+    const newTag = await tagService.create(tagData);
+    set({
+      tags: [...get().tags, newTag].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      ),
+    });
+    return newTag;
+  },
+
+  updateTag: async (id, updates) => {
+    await tagService.update(id, updates);
+    set({
+      tags: get().tags.map((tag) =>
+        tag.id === id ? { ...tag, ...updates } : tag
+      ),
+    });
+  },
+
+  deleteTag: async (id) => {
+    await tagService.delete(id);
+    set({ tags: get().tags.filter((tag) => tag.id !== id) });
+  },
+}));
@@ -0,0 +1,74 @@
+import { create } from "zustand";
+import type { Task } from "../types";
+import { taskService } from "../services/database";
+
+interface TaskStore {
+  tasks: Task[];
+  currentTask: Task | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadTasks: () => Promise<void>;
+  createTask: (
+    task: Omit<Task, "id" | "createdAt" | "updatedAt">
+  ) => Promise<Task>;
+  updateTask: (id: string, updates: Partial<Task>) => Promise<void>;
+  deleteTask: (id: string) => Promise<void>;
+  setCurrentTask: (task: Task | null) => void;
+}
+
+export const useTaskStore = create<TaskStore>((set, get) => ({
+  tasks: [],
+  currentTask: null,
+  isLoading: false,
+  error: null,
+
+  loadTasks: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const tasks = await taskService.getAll();
+      set({ tasks, isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : "Failed to load tasks",
+        isLoading: false,
+      });
+    }
+  },
+
+  createTask: async (taskData) => {
+    const newTask = await taskService.create(taskData);
+    set({ tasks: [...get().tasks, newTask] });
+    return newTask;
+  },
+
+  updateTask: async (id, updates) => {
+    await taskService.update(id, updates);
+    const state = get();
+    const updatedTasks = state.tasks.map((task) =>
+      task.id === id ? { ...task, ...updates, updatedAt: new Date() } : task
+    );
+    const updatedTask = updatedTasks.find((task) => task.id === id);
+    set({
+      tasks: updatedTasks,
+      // A finished task is no longer worked on
+      ...(state.currentTask?.id === id && {
+        currentTask: updatedTask?.done ? null : updatedTask,
+      }),
+    });
+  },
+
+  deleteTask: async (id) => {
+    await taskService.delete(id);
+    const state = get();
+    set({
+      tasks: state.tasks.filter((task) => task.id !== id),
+      ...(state.currentTask?.id === id && { currentTask: null }),
+    });
+  },
+
+  setCurrentTask: (task) => {
+    set({ currentTask: task });
+  },
+}));
@@ -1,130 +1,423 @@
 import { create } from "zustand";
-import type { TimerState, Project, Category, TimerSession } from "../types";
+import type {
+  TimerState,
+  Project,
+  Category,
+  Task,
+  TimerSession,
+  PauseSegment,
+  UserSettings,
+} from "../types";
 import { sessionService } from "../services/database";
+import { settingsRepository } from "../services/settingsRepository";
 import {
   validateSessionData,
   logSessionData,
   secondsToMilliseconds,
 } from "../utils/performance";
+import { getActivePreset, findCycleStep } from "../utils/presets";
+import {
+  resolveTimerSettings,
+  haveSameOverrides,
+} from "../utils/timerSettings";
 
 interface TimerStore extends TimerState {
   // Actions
   startTimer: () => void;
   pauseTimer: () => void;
   resetTimer: () => void;
-  setMode: (mode: "work" | "short_break" | "long_break") => void;
+  setMode: (mode: "work" | "short_break" | "long_break" | "stopwatch") => void;
+  setCycleStep: (index: number) => void; // Jump to a step of the active preset
   setProject: (project: Project) => void;
   setCategory: (category: Category) => void;
+  setTask: (task: Task | null) => void;
+  setTags: (tagIds: string[]) => void;
   tick: () => void;
-  completeSession: () => void;
+  completeSession: () => Promise<void>;
   saveCurrentSession: () => Promise<void>; // New: manually save current session
   updateTimeLeft: (time: number) => void;
   updateTotalTime: (time: number) => void;
   incrementPomodoros: () => void;
   resetPomodoros: () => void;
   clearCurrentSession: () => void; // New: clear current session data
+  restoreState: (state: Partial<TimerState>) => void;
+  startOvertime: () => void;
+  finishSession: () => void; // End an overtime session
+}
+
+// Milliseconds left on the countdown. While running this is measured against
+// the wall clock, so throttled or suspended intervals never make it drift.
+export const getRemainingMs = (state: TimerState, now = Date.now()): number => {
+  if (state.isRunning && state.deadline !== undefined) {
+    return state.deadline - now;
+  }
+  return state.remainingMs;
+};
+
+const msToDisplaySeconds = (milliseconds: number): number => {
+  return Math.max(0, Math.ceil(milliseconds / 1000));
+};
+
+const msToOvertimeSeconds = (milliseconds: number): number => {
+  return Math.max(0, Math.floor(-milliseconds / 1000));
+};
+
+// Settings from the settings repository, with the project's overrides applied
+const getStoredSettings = (project?: Project): Partial<UserSettings> => {
+  return resolveTimerSettings(settingsRepository.get(), project);
+};
+
+// Find `mode` in the active preset's cycle, searching from `fromIndex`, and
+// how long it runs there in seconds. Modes the preset never uses fall back to
+// the durations in Settings.
+const resolveCycleStep = (
+  mode: TimerState["currentMode"],
+  fromIndex: number,
+  project?: Project
+): { cycleIndex: number; duration: number } => {
+  // The stopwatch has no duration; it counts up from zero
+  if (mode === "stopwatch") {
+    return { cycleIndex: fromIndex, duration: 0 };
+  }
+
+  const settings = getStoredSettings(project);
+  const preset = getActivePreset(settings);
+  const index = findCycleStep(preset, mode, fromIndex);
+
+  if (index >= 0) {
+    return { cycleIndex: index, duration: preset.steps[index].duration * 60 };
+  }
+
+  let duration = 25 * 60;
+  if (mode === "work") {
+    duration = (settings.workDuration || 25) * 60;
+  } else if (mode === "short_break") {
+    duration = (settings.shortBreakDuration || 5) * 60;
+  } else if (mode === "long_break") {
+    duration = (settings.longBreakDuration || 15) * 60;
+  }
+  return { cycleIndex: fromIndex, duration };
+};
+
+// End any pause still open at the given time
+export const closePauses = (
+  pauses: PauseSegment[],
+  at: Date
+): PauseSegment[] => {
+  return pauses.map((pause) => (pause.end ? pause : { ...pause, end: at }));
+};
+
+// Build the session record for a timer state as of `now`
+export const buildSessionFromState = (
+  state: TimerState,
+  now = Date.now()
+): (Omit<TimerSession, "id"> & { id?: string }) | null => {
+  if (
+    !state.currentProject ||
+    !state.currentCategory ||
+    !state.sessionStartTime
+  ) {
+    return null;
+  }
+
+  const plannedDuration = secondsToMilliseconds(state.totalTime);
+  const remainingMs = getRemainingMs(state, now);
+  const completed = remainingMs <= 0;
+  // Overtime runs the countdown negative; that time was worked too
+  const overtimeMs = state.isOvertime ? Math.max(0, -remainingMs) : 0;
+  const isStopwatch = state.currentMode === "stopwatch";
+
+  // A countdown that finished while the tab was asleep ended at its deadline,
+  // not whenever the browser got around to running our callback
+  const endTime =
+    completed &&
+    !state.isOvertime &&
+    state.isRunning &&
+    state.deadline !== undefined
+      ? new Date(state.deadline)
+      : new Date(now);
+
+  return {
+    id: state.sessionId,
+    projectId: state.currentProject.id,
+    categoryId: state.currentCategory.id,
+    type: state.currentMode,
+    plannedDuration,
+    actualDuration: Math.round(
+      plannedDuration - Math.max(0, remainingMs) + overtimeMs
+    ),
+    startTime: state.sessionStartTime,
+    endTime,
+    completed,
+    pauses: closePauses(state.pauses ?? [], endTime),
+    overtimeDuration:
+      state.isOvertime && !isStopwatch ? Math.round(overtimeMs) : undefined,
+    openEnded: isStopwatch || undefined,
+    taskId: state.currentTask?.id,
+    tagIds: state.tagIds.length > 0 ? state.tagIds : undefined,
+    source: "timer",
+  };
+};
+
+// Actions that change the timer. With several tabs open only the leader tab
+// runs them; the others forward them (see services/timerSync).
+export type TimerCommandName =
+  | "startTimer"
+  | "pauseTimer"
+  | "resetTimer"
+  | "setMode"
+  | "setCycleStep"
+  | "setProject"
+  | "setCategory"
+  | "setTask"
+  | "setTags"
+  | "completeSession"
+  | "saveCurrentSession"
+  | "updateTimeLeft"
+  | "updateTotalTime"
+  | "incrementPomodoros"
+  | "resetPomodoros"
+  | "clearCurrentSession"
+  | "finishSession";
+
+export interface TimerCommand {
+  action: TimerCommandName;
+  args: unknown[];
 }
 
+// Sends a command to wherever it runs and settles with its result there
+export type TimerCommandForwarder = (command: TimerCommand) => Promise<void>;
+
+let commandForwarder: TimerCommandForwarder | null = null;
+
+// Route timer actions elsewhere instead of running them here; null to run
+// them locally again
+export const setTimerCommandForwarder = (
+  forwarder: TimerCommandForwarder | null
+) => {
+  commandForwarder = forwarder;
+};
+
+const forwardCommand = <K extends TimerCommandName>(
+  action: K,
+  ...args: Parameters<TimerStore[K]>
+): boolean => {
+  if (!commandForwarder) return false;
+  commandForwarder({ action, args }).catch((error) => {
+    console.error(`Error running forwarded ${action}:`, error);
+  });
+  return true;
+};
+
+// Like forwardCommand, but for callers that report the outcome: the result
+// settles once the command has run, or is null when it runs here
+const forwardCommandForResult = <K extends TimerCommandName>(
+  action: K,
+  ...args: Parameters<TimerStore[K]>
+): Promise<void> | null =>
+  commandForwarder ? commandForwarder({ action, args }) : null;
+
 export const useTimerStore = create<TimerStore>((set, get) => ({
   // Initial state
   isRunning: false,
   currentMode: "work",
   timeLeft: 25 * 60, // 25 minutes in seconds
   totalTime: 25 * 60,
+  remainingMs: 25 * 60 * 1000,
+  deadline: undefined,
   completedPomodoros: 0,
   sessionStartTime: undefined,
+  sessionId: undefined,
+  tagIds: [],
+  pauses: [],
+  isOvertime: false,
+  overtime: 0,
+  finishRequested: false,
+  cycleIndex: 0,
 
   // Actions
   startTimer: () => {
+    if (forwardCommand("startTimer")) return;
     const state = get();
+    // A session already under way may finish, but archived projects take no
+    // new ones
+    if (
+      !state.sessionStartTime &&
+      state.currentProject?.status === "archived"
+    ) {
+      return;
+    }
     if (!state.isRunning) {
+      const now = new Date();
       set({
         isRunning: true,
-        sessionStartTime: state.sessionStartTime || new Date(), // Preserve existing start time if resuming
+        deadline: now.getTime() + state.remainingMs,
+        sessionStartTime: state.sessionStartTime || now, // Preserve existing start time if resuming
+        sessionId: state.sessionId || crypto.randomUUID(),
+        // Resuming ends the open pause; a fresh session starts without any
+        pauses: state.sessionStartTime ? closePauses(state.pauses, now) : [],
       });
     }
   },
 
   pauseTimer: () => {
-    set({ isRunning: false });
+    if (forwardCommand("pauseTimer")) return;
+    const state = get();
+    if (!state.isRunning) return;
+
+    // Freeze the remaining time; resuming sets a new deadline from it
+    const remainingMs = state.isOvertime
+      ? getRemainingMs(state)
+      : Math.max(0, getRemainingMs(state));
+    set({
+      isRunning: false,
+      deadline: undefined,
+      remainingMs,
+      timeLeft: msToDisplaySeconds(remainingMs),
+      overtime: state.isOvertime ? msToOvertimeSeconds(remainingMs) : 0,
+      pauses: state.sessionStartTime
+        ? [...state.pauses, { start: new Date() }]
+        : state.pauses,
+    });
   },
 
   resetTimer: () => {
+    if (forwardCommand("resetTimer")) return;
     const state = get();
-    const settings = JSON.parse(localStorage.getItem("userSettings") || "{}");
-
-    let duration = 25 * 60; // Default 25 minutes
-    if (state.currentMode === "work") {
-      duration = (settings.workDuration || 25) * 60;
-    } else if (state.currentMode === "short_break") {
-      duration = (settings.shortBreakDuration || 5) * 60;
-    } else if (state.currentMode === "long_break") {
-      duration = (settings.longBreakDuration || 15) * 60;
-    }
+    const { cycleIndex, duration } = resolveCycleStep(
+      state.currentMode,
+      state.cycleIndex,
+      state.currentProject
+    );
 
     set({
+      cycleIndex,
       isRunning: false,
       timeLeft: duration,
       totalTime: duration,
+      remainingMs: secondsToMilliseconds(duration),
+      deadline: undefined,
       sessionStartTime: undefined, // Clear session start time on reset
+      sessionId: undefined,
+      pauses: [],
+      isOvertime: state.currentMode === "stopwatch", // the stopwatch only counts up
+      overtime: 0,
+      finishRequested: false,
     });
   },
 
   setMode: (mode) => {
-    const settings = JSON.parse(localStorage.getItem("userSettings") || "{}");
-
-    let duration = 25 * 60;
-    if (mode === "work") {
-      duration = (settings.workDuration || 25) * 60;
-    } else if (mode === "short_break") {
-      duration = (settings.shortBreakDuration || 5) * 60;
-    } else if (mode === "long_break") {
-      duration = (settings.longBreakDuration || 15) * 60;
-    }
+    if (forwardCommand("setMode", mode)) return;
+    const state = get();
+    const { cycleIndex, duration } = resolveCycleStep(
+      mode,
+      state.cycleIndex,
+      state.currentProject
+    );
 
     set({
       currentMode: mode,
+      cycleIndex,
       timeLeft: duration,
       totalTime: duration,
+      remainingMs: secondsToMilliseconds(duration),
+      deadline: undefined,
       isRunning: false,
       sessionStartTime: undefined, // Clear session start time when changing modes
+      sessionId: undefined,
+      pauses: [],
+      isOvertime: mode === "stopwatch",
+      overtime: 0,
+      finishRequested: false,
+    });
+  },
+
+  setCycleStep: (index) => {
+    if (forwardCommand("setCycleStep", index)) return;
+    const preset = getActivePreset(getStoredSettings(get().currentProject));
+    const cycleIndex = index % preset.steps.length;
+    const step = preset.steps[cycleIndex];
+    const duration = step.duration * 60;
+
+    set({
+      currentMode: step.mode,
+      cycleIndex,
+      timeLeft: duration,
+      totalTime: duration,
+      remainingMs: secondsToMilliseconds(duration),
+      deadline: undefined,
+      isRunning: false,
+      sessionStartTime: undefined,
+      sessionId: undefined,
+      pauses: [],
+      isOvertime: false,
+      overtime: 0,
+      finishRequested: false,
     });
   },
 
   setProject: (project) => {
-    set({ currentProject: project });
+    if (forwardCommand("setProject", project)) return;
+    const state = get();
+    set({
+      currentProject: project,
+      // A task belongs to a single project
+      ...(state.currentTask?.projectId !== project.id && {
+        currentTask: undefined,
+      }),
+    });
+
+    // Pick up the new project's durations unless a session is under way
+    if (
+      !state.sessionStartTime &&
+      (state.currentProject?.id !== project.id ||
+        !haveSameOverrides(state.currentProject, project))
+    ) {
+      get().resetTimer();
+    }
   },
 
   setCategory: (category) => {
-    set({ currentCategory: category });
+    if (forwardCommand("setCategory", category)) return;
+    set((state) => ({
+      currentCategory: category,
+      ...(state.currentTask?.categoryId !== category.id && {
+        currentTask: undefined,
+      }),
+    }));
   },
 
+  setTask: (task) => {
+    if (forwardCommand("setTask", task)) return;
+    set({ currentTask: task || undefined });
+  },
+
+  // Tags stay picked from one session to the next until changed
+  setTags: (tagIds) => {
+    if (forwardCommand("setTags", tagIds)) return;
+    set({ tagIds });
+  },
+
+  // Recompute the display from the deadline; safe to call as often as needed
   tick: () => {
     const state = get();
-    if (state.isRunning && state.timeLeft > 0) {
-      set({ timeLeft: state.timeLeft - 1 });
+    if (!state.isRunning) return;
+
+    const remainingMs = getRemainingMs(state);
+    const timeLeft = msToDisplaySeconds(remainingMs);
+    const overtime = state.isOvertime ? msToOvertimeSeconds(remainingMs) : 0;
+    if (timeLeft !== state.timeLeft || overtime !== state.overtime) {
+      set({ timeLeft, overtime });
     }
   },
 
   completeSession: async () => {
+    const forwarded = forwardCommandForResult("completeSession");
+    if (forwarded) return forwarded;
     const state = get();
+    const session = buildSessionFromState(state);
 
-    if (
-      state.currentProject &&
-      state.currentCategory &&
-      state.sessionStartTime
-    ) {
-      const session: Omit<TimerSession, "id"> = {
-        projectId: state.currentProject.id,
-        categoryId: state.currentCategory.id,
-        type: state.currentMode,
-        plannedDuration: secondsToMilliseconds(state.totalTime),
-        actualDuration: secondsToMilliseconds(state.totalTime - state.timeLeft),
-        startTime: state.sessionStartTime,
-        endTime: new Date(),
-        completed: state.timeLeft === 0,
-      };
-
+    if (session) {
       // Validate session data before saving
       const validation = validateSessionData(session);
       if (!validation.isValid) {
@@ -149,12 +442,21 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
 
     set({
       isRunning: false,
+      deadline: undefined,
+      remainingMs: Math.max(0, getRemainingMs(state)),
       sessionStartTime: undefined,
+      sessionId: undefined,
+      pauses: [],
+      isOvertime: state.currentMode === "stopwatch",
+      overtime: 0,
+      finishRequested: false,
     });
   },
 
   // New: Manually save current session (for when user wants to save progress)
   saveCurrentSession: async () => {
+    const forwarded = forwardCommandForResult("saveCurrentSession");
+    if (forwarded) return forwarded;
     const state = get();
 
     if (!state.sessionStartTime) {
@@ -167,16 +469,10 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       throw new Error("Please select a project and category before saving");
     }
 
-    const session: Omit<TimerSession, "id"> = {
-      projectId: state.currentProject.id,
-      categoryId: state.currentCategory.id,
-      type: state.currentMode,
-      plannedDuration: secondsToMilliseconds(state.totalTime),
-      actualDuration: secondsToMilliseconds(state.totalTime - state.timeLeft),
-      startTime: state.sessionStartTime,
-      endTime: new Date(),
-      completed: state.timeLeft === 0,
-    };
+    const session = buildSessionFromState(state);
+    if (!session) {
+      throw new Error("No active session to save");
+    }
 
     // Validate session data before saving
     const validation = validateSessionData(session);
@@ -195,7 +491,14 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       // Clear the current session after saving
       set({
         sessionStartTime: undefined,
+        sessionId: undefined,
         isRunning: false,
+        deadline: undefined,
+        remainingMs: Math.max(0, getRemainingMs(state)),
+        pauses: [],
+        isOvertime: state.currentMode === "stopwatch",
+        overtime: 0,
+        finishRequested: false,
       });
     } catch (error) {
       console.error("Error saving session:", error);
@@ -204,27 +507,89 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
   },
 
   updateTimeLeft: (time) => {
-    set({ timeLeft: time });
+    if (forwardCommand("updateTimeLeft", time)) return;
+    const remainingMs = secondsToMilliseconds(time);
+    set((state) => ({
+      timeLeft: time,
+      remainingMs,
+      deadline: state.isRunning ? Date.now() + remainingMs : undefined,
+    }));
   },
 
   updateTotalTime: (time) => {
+    if (forwardCommand("updateTotalTime", time)) return;
     set({ totalTime: time });
   },
 
   incrementPomodoros: () => {
+    if (forwardCommand("incrementPomodoros")) return;
     const state = get();
     set({ completedPomodoros: state.completedPomodoros + 1 });
   },
 
   resetPomodoros: () => {
+    if (forwardCommand("resetPomodoros")) return;
     set({ completedPomodoros: 0 });
   },
 
   // New: Clear current session data
   clearCurrentSession: () => {
+    if (forwardCommand("clearCurrentSession")) return;
+    const state = get();
     set({
       sessionStartTime: undefined,
+      sessionId: undefined,
       isRunning: false,
+      deadline: undefined,
+      remainingMs: Math.max(0, getRemainingMs(state)),
+      pauses: [],
+      isOvertime: state.currentMode === "stopwatch",
+      overtime: 0,
+      finishRequested: false,
+    });
+  },
+
+  // Apply a recovered checkpoint, keeping the display in sync with it
+  restoreState: (restored) => {
+    set((state) => {
+      const nextState = { ...state, ...restored };
+      const remainingMs = getRemainingMs(nextState);
+      return {
+        ...restored,
+        timeLeft: msToDisplaySeconds(remainingMs),
+        overtime: nextState.isOvertime ? msToOvertimeSeconds(remainingMs) : 0,
+      };
     });
   },
+
+  // Keep a work session running past zero instead of completing it
+  startOvertime: () => {
+    set({ isOvertime: true });
+  },
+
+  finishSession: () => {
+    if (forwardCommand("finishSession")) return;
+    if (get().isOvertime) {
+      set({ finishRequested: true });
+    }
+  },
 }));
+
+// Settings that change how long the next interval runs
+const CYCLE_SETTINGS: Array<keyof UserSettings> = [
+  "workDuration",
+  "shortBreakDuration",
+  "longBreakDuration",
+  "presets",
+  "activePresetId",
+];
+
+// An idle timer picks up new durations as soon as they are saved; a session
+// under way keeps the length it started with
+settingsRepository.subscribe((settings, previous) => {
+  const state = useTimerStore.getState();
+  if (state.sessionStartTime || state.isRunning) return;
+  if (CYCLE_SETTINGS.some((key) => settings[key] !== previous[key])) {
+    state.resetTimer();
+  }
+});
@@ -5,26 +5,151 @@ export interface Project {
   color: string;
   status: "active" | "archived";
   categories: Category[];
+  settingsOverrides?: ProjectTimerSettings;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date; // set while the project is in the trash
 }
 
+// A project as stored; its categories are read from the categories table
+export type ProjectRecord = Omit<Project, "categories">;
+
 export interface Category {
   id: string;
   name: string;
   projectId: string;
+  deletedAt?: Date; // set while the category is in the trash
+  updatedAt?: Date; // last change; unset on rows saved before it was tracked
+}
+
+// A free-form label for slicing time across projects, e.g. "bugfix"
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  updatedAt?: Date; // last change; unset on rows saved before it was tracked
+}
+
+// A piece of work within a project's category, estimated in pomodoros
+export interface Task {
+  id: string;
+  projectId: string;
+  categoryId: string;
+  title: string;
+  status: "todo" | "in_progress" | "blocked"; // where an open task stands
+  estimatedPomodoros: number;
+  done: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date; // set while the task's project is in the trash
+}
+
+export interface PauseSegment {
+  start: Date;
+  end?: Date; // unset while the timer is still paused
 }
 
 export interface TimerSession {
   id: string;
   projectId: string;
   categoryId: string;
-  type: "work" | "short_break" | "long_break";
-  plannedDuration: number; // milliseconds
+  type: "work" | "short_break" | "long_break" | "stopwatch";
+  plannedDuration: number; // milliseconds, 0 for open-ended sessions
   actualDuration: number; // milliseconds
   startTime: Date;
   endTime?: Date;
   completed: boolean;
+  pauses?: PauseSegment[]; // pause/resume intervals, in order
+  overtimeDuration?: number; // milliseconds worked past plannedDuration, included in actualDuration
+  openEnded?: boolean; // counted up with the stopwatch rather than against a plan
+  taskId?: string; // the task worked on, if one was picked
+  source?: "timer" | "manual"; // how it was recorded; unset means the timer
+  tagIds?: string[]; // free-form tags, across projects and categories
+  deletedAt?: Date; // set while the session is in the trash
+  updatedAt?: Date; // last change; unset on rows saved before it was tracked
+}
+
+// Precomputed totals for one day of a category's sessions of one type, so
+// dashboards don't have to read every session
+export interface DailyRollup {
+  id: string; // date, projectId, categoryId and type joined by "|"
+  date: string; // local calendar day the sessions started on, YYYY-MM-DD
+  projectId: string;
+  categoryId: string;
+  type: TimerSession["type"];
+  sessionCount: number;
+  completedCount: number;
+  totalDuration: number; // milliseconds
+  lastStartTime: Date; // start of the latest session counted
+}
+
+// One interval in a preset's cycle
+export interface CycleStep {
+  mode: "work" | "short_break" | "long_break";
+  duration: number; // minutes
+}
+
+// A named, ordered cycle of intervals the timer steps through
+export interface TimerPreset {
+  id: string;
+  name: string;
+  steps: CycleStep[];
+}
+
+// A named set of categories a new project can start with
+export interface CategoryTemplate {
+  id: string;
+  name: string;
+  categories: string[]; // category names, in order
+}
+
+// A saved project setup to create new projects from. Sessions are never part
+// of it.
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  namePattern: string; // {n} is the next number in the series, {date} today
+  description?: string;
+  color: string;
+  categories: string[]; // category names, in order
+  settingsOverrides?: ProjectTimerSettings;
+}
+
+// Timer settings a project can set for itself; anything left unset follows
+// the global settings
+export type ProjectTimerSettings = Partial<
+  Pick<
+    UserSettings,
+    | "workDuration"
+    | "shortBreakDuration"
+    | "longBreakDuration"
+    | "longBreakInterval"
+    | "autoStartBreaks"
+    | "audioEnabled"
+  >
+>;
+
+// Something that broke focus during a work session, logged as it happened
+export interface Interruption {
+  id: string;
+  sessionId: string; // the session it happened in, saved once that session ends
+  projectId: string;
+  categoryId: string;
+  kind: "internal" | "external";
+  note?: string;
+  reviewed: boolean;
+  createdAt: Date;
+  updatedAt?: Date; // last change; unset on rows saved before it was tracked
+  deletedAt?: Date; // set while the interruption's project is in the trash
+}
+
+// What is waiting in the trash. Categories and sessions deleted along with a
+// project appear only under that project.
+export interface TrashContents {
+  projects: Project[];
+  categories: Category[];
+  sessions: TimerSession[];
 }
 
 export interface UserSettings {
@@ -35,18 +160,59 @@ export interface UserSettings {
   audioEnabled: boolean;
   notificationsEnabled: boolean;
   autoStartBreaks: boolean;
+  overtimeEnabled: boolean; // keep work sessions running past zero until finished
+  presets: TimerPreset[]; // user-defined presets
+  activePresetId: string;
   theme: "light" | "dark" | "system";
+  trashRetentionDays: number; // deleted items are purged after this many days
+  archiveSuggestionWeeks: number; // idle active projects are suggested for archiving after this long
+  integrityCheckOnStartup: boolean; // scan the database for broken data on load
+  categoryTemplates: CategoryTemplate[];
+  defaultCategoryTemplateId: string; // template new projects start from, "" for none
+  projectTemplates: ProjectTemplate[];
 }
 
 export interface TimerState {
   isRunning: boolean;
-  currentMode: "work" | "short_break" | "long_break";
+  currentMode: "work" | "short_break" | "long_break" | "stopwatch";
   timeLeft: number; // seconds
   totalTime: number; // seconds
+  remainingMs: number; // milliseconds left, authoritative while paused
+  deadline?: number; // epoch milliseconds when the countdown hits zero, set while running
   currentProject?: Project;
   currentCategory?: Category;
+  currentTask?: Task;
+  tagIds: string[]; // tags the current session will be saved with
+  completedPomodoros: number;
+  sessionStartTime?: Date;
+  sessionId?: string; // id the current session will be saved under
+  pauses: PauseSegment[]; // pause/resume intervals of the current session
+  isOvertime: boolean; // counting up: a work session past its planned duration, or the stopwatch
+  overtime: number; // seconds past the planned duration
+  finishRequested: boolean; // the user ended an overtime session; the engine completes it
+  cycleIndex: number; // position in the active preset's cycle
+}
+
+// Snapshot of the timer written to the database so a reload or crash can be
+// recovered from
+export interface TimerCheckpoint {
+  id: string;
+  isRunning: boolean;
+  currentMode: "work" | "short_break" | "long_break" | "stopwatch";
+  totalTime: number; // seconds
+  remainingMs: number; // milliseconds
+  deadline?: number; // epoch milliseconds
+  projectId?: string;
+  categoryId?: string;
   completedPomodoros: number;
   sessionStartTime?: Date;
+  sessionId?: string;
+  taskId?: string;
+  tagIds?: string[];
+  pauses?: PauseSegment[];
+  isOvertime?: boolean;
+  cycleIndex?: number;
+  savedAt: Date;
 }
 
 export interface AnalyticsData {
@@ -0,0 +1,70 @@
+import type { CategoryTemplate, UserSettings } from "../types";
+
+// The template new projects start from until the user picks another
+export const GENERAL_TEMPLATE_ID = "general";
+
+// Templates every user starts with; they can be edited or removed like any other
+export const STARTER_CATEGORY_TEMPLATES: CategoryTemplate[] = [
+  {
+    id: GENERAL_TEMPLATE_ID,
+    name: "General",
+    categories: [
+      "Development",
+      "Marketing",
+      "Design",
+      "Planning",
+      "Meetings",
+      "Research",
+      "Administration",
+    ],
+  },
+  {
+    id: "software-project",
+    name: "Software project",
+    categories: [
+      "Development",
+      "Code Review",
+      "Testing",
+      "Design",
+      "Planning",
+      "Meetings",
+      "Documentation",
+    ],
+  },
+  {
+    id: "client-work",
+    name: "Client work",
+    categories: [
+      "Client Meetings",
+      "Delivery",
+      "Communication",
+      "Revisions",
+      "Invoicing",
+    ],
+  },
+];
+
+export const getCategoryTemplates = (
+  settings: Partial<UserSettings>
+): CategoryTemplate[] => {
+  return settings.categoryTemplates ?? STARTER_CATEGORY_TEMPLATES;
+};
+
+// The template new projects get, if it still exists
+export const getDefaultCategoryTemplate = (
+  settings: Partial<UserSettings>
+): CategoryTemplate | undefined => {
+  return getCategoryTemplates(settings).find(
+    (template) => template.id === settings.defaultCategoryTemplateId
+  );
+};
+
+// Category names typed one per line or separated by commas, without blanks or
+// repeats
+export const parseCategoryNames = (text: string): string[] => {
+  const names = text
+    .split(/[\n,]/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return Array.from(new Set(names));
+};
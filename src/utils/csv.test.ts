@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvField, toCsv } from "./csv";
+
+describe("escapeCsvField", () => {
+  it("leaves plain text, numbers and booleans as they are", () => {
+    expect(escapeCsvField("Deep work")).toBe("Deep work");
+    expect(escapeCsvField(1.5)).toBe("1.5");
+    expect(escapeCsvField(false)).toBe("false");
+  });
+
+  it.each([
+    ["a comma", "Design, review", '"Design, review"'],
+    ["a quote", 'The "big" one', '"The ""big"" one"'],
+    ["a line feed", "first\nsecond", '"first\nsecond"'],
+    ["a carriage return", "first\rsecond", '"first\rsecond"'],
+    ["a CRLF", "first\r\nsecond", '"first\r\nsecond"'],
+  ])("quotes a field with %s", (_, value, expected) => {
+    expect(escapeCsvField(value)).toBe(expected);
+  });
+});
+
+describe("toCsv", () => {
+  it("ends every row with CRLF, the last one included", () => {
+    expect(
+      toCsv([
+        ["Project", "Minutes"],
+        ["Client, Inc.", 25],
+      ])
+    ).toBe('Project,Minutes\r\n"Client, Inc.",25\r\n');
+  });
+
+  it("keeps line breaks inside a quoted field out of the row count", () => {
+    const csv = toCsv([["note"], ["line one\nline two"]]);
+
+    expect(csv.split("\r\n")).toEqual(["note", '"line one\nline two"', ""]);
+  });
+
+  it("returns nothing for no rows", () => {
+    expect(toCsv([])).toBe("");
+  });
+});
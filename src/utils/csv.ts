@@ -0,0 +1,13 @@
+// Quote a field when it holds a comma, quote or line break, doubling any
+// quotes inside, as RFC 4180 asks
+export const escapeCsvField = (value: string | number | boolean): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows joined with CRLF, including after the last row
+export const toCsv = (
+  rows: Array<Array<string | number | boolean>>
+): string => {
+  return rows.map((row) => row.map(escapeCsvField).join(",") + "\r\n").join("");
+};
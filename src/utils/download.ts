@@ -0,0 +1,16 @@
+// Save `content` as a file through the browser's download prompt
+export const downloadFile = (
+  content: string,
+  filename: string,
+  type: string
+): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -51,9 +51,11 @@ export const validateSessionData = (session: any) => {
     errors.push("Missing startTime");
   }
 
+  // Open-ended (stopwatch) sessions have no plan to measure against
   if (
     typeof session.plannedDuration !== "number" ||
-    session.plannedDuration <= 0
+    session.plannedDuration < 0 ||
+    (session.plannedDuration === 0 && !session.openEnded)
   ) {
     errors.push("Invalid plannedDuration");
   }
@@ -65,7 +67,9 @@ export const validateSessionData = (session: any) => {
     errors.push("Invalid actualDuration");
   }
 
-  if (!["work", "short_break", "long_break"].includes(session.type)) {
+  if (
+    !["work", "short_break", "long_break", "stopwatch"].includes(session.type)
+  ) {
     errors.push("Invalid session type");
   }
 
@@ -84,6 +88,22 @@ export const millisecondsToSeconds = (milliseconds: number): number => {
   return Math.floor(milliseconds / 1000);
 };
 
+// Format seconds as MM:SS, or HH:MM:SS once past an hour
+export const formatClock = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours.toString().padStart(2, "0")}:${minutes
+      .toString()
+      .padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${minutes.toString().padStart(2, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}`;
+};
+
 export const formatDuration = (milliseconds: number): string => {
   const seconds = Math.floor(milliseconds / 1000);
   const minutes = Math.floor(seconds / 60);
@@ -0,0 +1,130 @@
+import type { CycleStep, TimerPreset, UserSettings } from "../types";
+
+// The preset made from the durations configured in Settings
+export const SETTINGS_PRESET_ID = "settings";
+
+// Work sessions separated by short breaks, with a long break closing the cycle
+export const buildPomodoroCycle = (
+  workDuration: number,
+  shortBreakDuration: number,
+  longBreakDuration: number,
+  longBreakInterval: number
+): CycleStep[] => {
+  const steps: CycleStep[] = [];
+  const interval = Math.max(1, longBreakInterval);
+
+  for (let i = 0; i < interval; i++) {
+    steps.push({ mode: "work", duration: workDuration });
+    steps.push(
+      i < interval - 1
+        ? { mode: "short_break", duration: shortBreakDuration }
+        : { mode: "long_break", duration: longBreakDuration }
+    );
+  }
+
+  return steps;
+};
+
+export const BUILT_IN_PRESETS: TimerPreset[] = [
+  {
+    id: "classic",
+    name: "Classic 25/5",
+    steps: buildPomodoroCycle(25, 5, 15, 4),
+  },
+  {
+    id: "deep-work-50",
+    name: "Deep Work 50/10",
+    steps: [
+      { mode: "work", duration: 50 },
+      { mode: "short_break", duration: 10 },
+    ],
+  },
+  {
+    id: "deep-work-90",
+    name: "Deep Work 90/20",
+    steps: [
+      { mode: "work", duration: 90 },
+      { mode: "short_break", duration: 20 },
+    ],
+  },
+];
+
+export const isBuiltInPreset = (presetId: string): boolean => {
+  return (
+    presetId === SETTINGS_PRESET_ID ||
+    BUILT_IN_PRESETS.some((preset) => preset.id === presetId)
+  );
+};
+
+export const getSettingsPreset = (
+  settings: Partial<UserSettings>
+): TimerPreset => ({
+  id: SETTINGS_PRESET_ID,
+  name: "My Settings",
+  steps: buildPomodoroCycle(
+    settings.workDuration || 25,
+    settings.shortBreakDuration || 5,
+    settings.longBreakDuration || 15,
+    settings.longBreakInterval || 4
+  ),
+});
+
+// Every preset the user can pick, built-in ones first
+export const getPresets = (settings: Partial<UserSettings>): TimerPreset[] => {
+  return [
+    getSettingsPreset(settings),
+    ...BUILT_IN_PRESETS,
+    ...(settings.presets || []),
+  ];
+};
+
+// The selected preset, falling back to the Settings durations when it is gone
+export const getActivePreset = (
+  settings: Partial<UserSettings>
+): TimerPreset => {
+  const preset = getPresets(settings).find(
+    (p) => p.id === settings.activePresetId && p.steps.length > 0
+  );
+  return preset || getSettingsPreset(settings);
+};
+
+export const getCycleStep = (preset: TimerPreset, index: number): CycleStep => {
+  return preset.steps[index % preset.steps.length];
+};
+
+// Index of the next step with the given mode, starting at `fromIndex` and
+// wrapping around the cycle; -1 if the preset has no such step
+export const findCycleStep = (
+  preset: TimerPreset,
+  mode: CycleStep["mode"],
+  fromIndex: number
+): number => {
+  const count = preset.steps.length;
+  for (let offset = 0; offset < count; offset++) {
+    const index = (fromIndex + offset) % count;
+    if (preset.steps[index].mode === mode) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+// Work sessions left before the cycle's next long break, counting the current
+// step; null when the preset has no long break
+export const getWorkStepsUntilLongBreak = (
+  preset: TimerPreset,
+  fromIndex: number
+): number | null => {
+  const count = preset.steps.length;
+  let workSteps = 0;
+  for (let offset = 0; offset < count; offset++) {
+    const step = getCycleStep(preset, fromIndex + offset);
+    if (step.mode === "long_break") {
+      return workSteps;
+    }
+    if (step.mode === "work") {
+      workSteps++;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,54 @@
+import type { Project, ProjectTemplate } from "../types";
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Fill in a name pattern: {date} becomes today's date and {n} one more than
+// the highest number already used by a project named from the same pattern
+export const fillNamePattern = (
+  pattern: string,
+  existingNames: string[]
+): string => {
+  const dated = pattern.replace(/\{date\}/g, new Date().toLocaleDateString());
+  if (!dated.includes("{n}")) return dated;
+
+  const matcher = new RegExp(
+    `^${dated.split("{n}").map(escapeRegExp).join("(\\d+)")}$`
+  );
+  const highest = existingNames.reduce((max, name) => {
+    const match = name.match(matcher);
+    return match ? Math.max(max, ...match.slice(1).map(Number)) : max;
+  }, 0);
+
+  return dated.replace(/\{n\}/g, String(highest + 1));
+};
+
+// A name pattern read off a project name: a trailing number starts a series
+export const toNamePattern = (name: string): string => {
+  return name.replace(/\d+$/, "{n}");
+};
+
+// Name for a copy of a project: the next in its series, if it has one
+export const getDuplicateName = (
+  project: Pick<Project, "name">,
+  existingNames: string[]
+): string => {
+  const pattern = toNamePattern(project.name);
+  return pattern.includes("{n}")
+    ? fillNamePattern(pattern, existingNames)
+    : `${project.name} (copy)`;
+};
+
+export const templateFromProject = (
+  project: Project,
+  name: string,
+  namePattern: string
+): ProjectTemplate => ({
+  id: crypto.randomUUID(),
+  name,
+  namePattern,
+  description: project.description,
+  color: project.color,
+  categories: project.categories.map((category) => category.name),
+  settingsOverrides: project.settingsOverrides,
+});
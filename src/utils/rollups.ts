@@ -0,0 +1,54 @@
+import type { DailyRollup, TimerSession } from "../types";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// The local calendar day a session is counted under, as YYYY-MM-DD
+export const toDayKey = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+};
+
+// Start of the day and start of the next one, in local time
+export const getDayBounds = (day: string): [Date, Date] => {
+  const [year, month, date] = day.split("-").map(Number);
+  return [new Date(year, month - 1, date), new Date(year, month - 1, date + 1)];
+};
+
+// Totals per day, project, category and session type. A session counts
+// toward the day it started on.
+export const buildDailyRollups = (sessions: TimerSession[]): DailyRollup[] => {
+  const rollups = new Map<string, DailyRollup>();
+
+  sessions.forEach((session) => {
+    const startTime = new Date(session.startTime);
+    const date = toDayKey(startTime);
+    const id = [date, session.projectId, session.categoryId, session.type].join(
+      "|"
+    );
+    const existing = rollups.get(id);
+
+    if (existing) {
+      existing.sessionCount += 1;
+      existing.completedCount += session.completed ? 1 : 0;
+      existing.totalDuration += session.actualDuration;
+      if (startTime > existing.lastStartTime) {
+        existing.lastStartTime = startTime;
+      }
+    } else {
+      rollups.set(id, {
+        id,
+        date,
+        projectId: session.projectId,
+        categoryId: session.categoryId,
+        type: session.type,
+        sessionCount: 1,
+        completedCount: session.completed ? 1 : 0,
+        totalDuration: session.actualDuration,
+        lastStartTime: startTime,
+      });
+    }
+  });
+
+  return Array.from(rollups.values());
+};
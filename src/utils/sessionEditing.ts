@@ -0,0 +1,131 @@
+import type { PauseSegment, TimerSession } from "../types";
+
+type SessionTiming = Pick<
+  TimerSession,
+  "startTime" | "endTime" | "actualDuration" | "pauses" | "overtimeDuration"
+>;
+
+export const SESSION_TYPE_OPTIONS: Array<{
+  value: TimerSession["type"];
+  label: string;
+}> = [
+  { value: "work", label: "Work" },
+  { value: "stopwatch", label: "Stopwatch (open-ended)" },
+  { value: "short_break", label: "Short Break" },
+  { value: "long_break", label: "Long Break" },
+];
+
+// Value for a datetime-local input, in local time
+export const toLocalInputValue = (date: Date): string => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+// When a session ended; older records without an end time are assumed to
+// have run uninterrupted
+export const getSessionEnd = (
+  session: Pick<TimerSession, "startTime" | "endTime" | "actualDuration">
+): Date => {
+  return session.endTime
+    ? new Date(session.endTime)
+    : new Date(new Date(session.startTime).getTime() + session.actualDuration);
+};
+
+// Problem with a start/end pair, or null when it is usable
+export const validateSessionRange = (start: Date, end: Date): string | null => {
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return "Please enter a valid start and end";
+  }
+  if (end <= start) {
+    return "The session must end after it starts";
+  }
+  if (end.getTime() > Date.now()) {
+    return "Sessions can't end in the future";
+  }
+  return null;
+};
+
+// The first session sharing any time with [start, end), skipping `ignoreIds`
+export const findOverlappingSession = (
+  sessions: TimerSession[],
+  start: Date,
+  end: Date,
+  ignoreIds: string[] = []
+): TimerSession | undefined => {
+  return sessions.find(
+    (session) =>
+      !ignoreIds.includes(session.id) &&
+      new Date(session.startTime) < end &&
+      getSessionEnd(session) > start
+  );
+};
+
+// Move a session to [start, end): pauses are clipped to the new range and the
+// focused time is recomputed from what is left
+export const retimeSession = (
+  session: TimerSession,
+  start: Date,
+  end: Date
+): SessionTiming => {
+  const pauses: PauseSegment[] = [];
+  let pausedTime = 0;
+
+  (session.pauses ?? []).forEach((pause) => {
+    const pauseStart = new Date(
+      Math.max(new Date(pause.start).getTime(), start.getTime())
+    );
+    const pauseEnd = new Date(
+      Math.min(
+        new Date(pause.end ?? getSessionEnd(session)).getTime(),
+        end.getTime()
+      )
+    );
+    if (pauseEnd > pauseStart) {
+      pauses.push({ start: pauseStart, end: pauseEnd });
+      pausedTime += pauseEnd.getTime() - pauseStart.getTime();
+    }
+  });
+
+  const actualDuration = end.getTime() - start.getTime() - pausedTime;
+
+  return {
+    startTime: start,
+    endTime: end,
+    actualDuration,
+    pauses,
+    overtimeDuration:
+      session.overtimeDuration !== undefined
+        ? Math.max(0, actualDuration - session.plannedDuration)
+        : undefined,
+  };
+};
+
+// Cut a session in two at `at`. The second part goes to `categoryId`; each
+// part's plan becomes its own length.
+export const splitSession = (
+  session: TimerSession,
+  at: Date,
+  categoryId: string
+): [Partial<TimerSession>, Omit<TimerSession, "id">] => {
+  const start = new Date(session.startTime);
+  const end = getSessionEnd(session);
+  const first = retimeSession(session, start, at);
+  const second = retimeSession(session, at, end);
+
+  return [
+    {
+      ...first,
+      plannedDuration: session.openEnded ? 0 : at.getTime() - start.getTime(),
+      overtimeDuration: undefined,
+    },
+    {
+      ...session,
+      ...second,
+      categoryId,
+      // A task belongs to one category
+      taskId: categoryId === session.categoryId ? session.taskId : undefined,
+      plannedDuration: session.openEnded ? 0 : end.getTime() - at.getTime(),
+      overtimeDuration: undefined,
+    },
+  ];
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { buildSessionCsv, type CsvExportOptions } from "./sessionExport";
+import type { Project, TimerSession } from "../types";
+
+const MINUTE_MS = 60 * 1000;
+
+const project = (id: string, name: string, categoryName: string): Project => ({
+  id,
+  name,
+  color: "#3b82f6",
+  status: "active",
+  categories: [{ id: `${id}-category`, name: categoryName, projectId: id }],
+  createdAt: new Date(2024, 0, 1),
+  updatedAt: new Date(2024, 0, 1),
+});
+
+const projects = [
+  project("project-1", "Website", "Design"),
+  project("project-2", "App", "Design"),
+];
+
+const session = (
+  id: string,
+  startTime: Date,
+  minutes: number,
+  projectId = "project-1",
+  completed = true
+): TimerSession => ({
+  id,
+  projectId,
+  categoryId: `${projectId}-category`,
+  type: "work",
+  plannedDuration: 25 * MINUTE_MS,
+  actualDuration: minutes * MINUTE_MS,
+  startTime,
+  endTime: new Date(startTime.getTime() + minutes * MINUTE_MS),
+  completed,
+});
+
+const options = (overrides: Partial<CsvExportOptions>): CsvExportOptions => ({
+  columns: ["start", "project", "category", "duration", "completed"],
+  durationUnit: "minutes",
+  groupBy: "session",
+  ...overrides,
+});
+
+const rowsOf = (csv: string) => csv.split("\r\n").filter(Boolean);
+
+describe("buildSessionCsv", () => {
+  it("lists sessions oldest first with local times and names", () => {
+    const csv = buildSessionCsv(
+      [
+        session("later", new Date(2024, 2, 4, 14, 5), 25, "project-2", false),
+        session("earlier", new Date(2024, 2, 4, 9, 0), 25),
+      ],
+      projects,
+      options({})
+    );
+
+    expect(rowsOf(csv)).toEqual([
+      "Start,Project,Category,Duration (minutes),Completed",
+      "2024-03-04 09:00,Website,Design,25,Yes",
+      "2024-03-04 14:05,App,Design,25,No",
+    ]);
+  });
+
+  it("quotes project names that need it", () => {
+    const csv = buildSessionCsv(
+      [session("one", new Date(2024, 2, 4, 9, 0), 25)],
+      [project("project-1", 'Client "A", Inc.', "Design")],
+      options({ columns: ["project"] })
+    );
+
+    expect(csv).toBe('Project\r\n"Client ""A"", Inc."\r\n');
+  });
+
+  it.each([
+    ["minutes", "90"],
+    ["hours", "1.50"],
+  ] as const)("writes durations in %s", (durationUnit, expected) => {
+    const csv = buildSessionCsv(
+      [session("one", new Date(2024, 2, 4, 9, 0), 90)],
+      projects,
+      options({ columns: ["duration"], durationUnit })
+    );
+
+    expect(rowsOf(csv)).toEqual([`Duration (${durationUnit})`, expected]);
+  });
+
+  it("rounds minutes and keeps two decimals for hours", () => {
+    const sessions = [
+      {
+        ...session("one", new Date(2024, 2, 4, 9, 0), 0),
+        actualDuration: 89_700,
+      },
+    ];
+
+    expect(
+      rowsOf(
+        buildSessionCsv(sessions, projects, options({ columns: ["duration"] }))
+      )[1]
+    ).toBe("1");
+    expect(
+      rowsOf(
+        buildSessionCsv(
+          sessions,
+          projects,
+          options({ columns: ["duration"], durationUnit: "hours" })
+        )
+      )[1]
+    ).toBe("0.02");
+  });
+
+  it("groups by day at local midnight", () => {
+    const csv = buildSessionCsv(
+      [
+        session("before-midnight", new Date(2024, 2, 4, 23, 59), 30),
+        session("at-midnight", new Date(2024, 2, 5, 0, 0), 20),
+        session("next-morning", new Date(2024, 2, 5, 8, 0), 10, "project-2"),
+      ],
+      projects,
+      options({ groupBy: "day" })
+    );
+
+    expect(rowsOf(csv)).toEqual([
+      "Date,Sessions,Duration (minutes),Completed",
+      "2024-03-04,1,30,1",
+      "2024-03-05,2,30,2",
+    ]);
+  });
+
+  it("keeps categories of the same name apart when grouping by category", () => {
+    const csv = buildSessionCsv(
+      [
+        session("website-1", new Date(2024, 2, 4, 9, 0), 25),
+        session("app-1", new Date(2024, 2, 4, 10, 0), 50, "project-2", false),
+        session("website-2", new Date(2024, 2, 5, 9, 0), 25),
+      ],
+      projects,
+      options({ groupBy: "category" })
+    );
+
+    expect(rowsOf(csv)).toEqual([
+      "Project,Category,Sessions,Duration (minutes),Completed",
+      "App,Design,1,50,0",
+      "Website,Design,2,50,2",
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import type { Project, TimerSession } from "../types";
+import { toCsv } from "./csv";
+import { SESSION_TYPE_OPTIONS, getSessionEnd } from "./sessionEditing";
+import { toDayKey } from "./rollups";
+
+export type CsvColumn =
+  | "start"
+  | "end"
+  | "project"
+  | "category"
+  | "duration"
+  | "type"
+  | "completed";
+
+export interface CsvExportOptions {
+  columns: CsvColumn[];
+  durationUnit: "minutes" | "hours";
+  groupBy: "session" | "day" | "category";
+}
+
+export const CSV_COLUMN_OPTIONS: Array<{ value: CsvColumn; label: string }> = [
+  { value: "start", label: "Start" },
+  { value: "end", label: "End" },
+  { value: "project", label: "Project" },
+  { value: "category", label: "Category" },
+  { value: "duration", label: "Duration" },
+  { value: "type", label: "Type" },
+  { value: "completed", label: "Completed" },
+];
+
+// The only picked columns that still apply once rows are aggregated
+export const AGGREGATE_COLUMNS: CsvColumn[] = ["duration", "completed"];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Local time as YYYY-MM-DD HH:MM, which spreadsheets read as a date
+const formatDateTime = (date: Date) =>
+  `${toDayKey(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const formatDuration = (
+  milliseconds: number,
+  unit: CsvExportOptions["durationUnit"]
+) =>
+  unit === "hours"
+    ? (milliseconds / (60 * 60 * 1000)).toFixed(2)
+    : String(Math.round(milliseconds / (60 * 1000)));
+
+interface ResolvedSession {
+  session: TimerSession;
+  projectName: string;
+  categoryName: string;
+}
+
+const resolveNames = (
+  sessions: TimerSession[],
+  projects: Project[]
+): ResolvedSession[] => {
+  return sessions.map((session) => {
+    const project = projects.find((p) => p.id === session.projectId);
+    return {
+      session,
+      projectName: project?.name ?? "Unknown",
+      categoryName:
+        project?.categories.find((c) => c.id === session.categoryId)?.name ??
+        "Unknown",
+    };
+  });
+};
+
+const buildSessionRows = (
+  resolved: ResolvedSession[],
+  { columns, durationUnit }: CsvExportOptions
+) => {
+  const header = columns.map(
+    (column) =>
+      CSV_COLUMN_OPTIONS.find((option) => option.value === column)!.label +
+      (column === "duration" ? ` (${durationUnit})` : "")
+  );
+  const rows = resolved.map(({ session, projectName, categoryName }) =>
+    columns.map((column) => {
+      switch (column) {
+        case "start":
+          return formatDateTime(new Date(session.startTime));
+        case "end":
+          return formatDateTime(getSessionEnd(session));
+        case "project":
+          return projectName;
+        case "category":
+          return categoryName;
+        case "duration":
+          return formatDuration(session.actualDuration, durationUnit);
+        case "type":
+          return (
+            SESSION_TYPE_OPTIONS.find((option) => option.value === session.type)
+              ?.label ?? session.type
+          );
+        case "completed":
+          return session.completed ? "Yes" : "No";
+      }
+    })
+  );
+  return [header, ...rows];
+};
+
+// One row per day, or per project category, with the session count and
+// whichever of the duration and completed columns were picked
+const buildAggregateRows = (
+  resolved: ResolvedSession[],
+  { columns, durationUnit, groupBy }: CsvExportOptions
+) => {
+  const groups = new Map<
+    string,
+    { key: string[]; sessions: number; completed: number; duration: number }
+  >();
+
+  resolved.forEach(({ session, projectName, categoryName }) => {
+    const id =
+      groupBy === "day"
+        ? toDayKey(new Date(session.startTime))
+        : `${session.projectId}|${session.categoryId}`;
+    const group = groups.get(id) ?? {
+      key: groupBy === "day" ? [id] : [projectName, categoryName],
+      sessions: 0,
+      completed: 0,
+      duration: 0,
+    };
+    group.sessions += 1;
+    group.completed += session.completed ? 1 : 0;
+    group.duration += session.actualDuration;
+    groups.set(id, group);
+  });
+
+  const header = [
+    ...(groupBy === "day" ? ["Date"] : ["Project", "Category"]),
+    "Sessions",
+    ...(columns.includes("duration") ? [`Duration (${durationUnit})`] : []),
+    ...(columns.includes("completed") ? ["Completed"] : []),
+  ];
+  const rows = Array.from(groups.values())
+    .sort((a, b) => a.key.join("|").localeCompare(b.key.join("|")))
+    .map((group) => [
+      ...group.key,
+      group.sessions,
+      ...(columns.includes("duration")
+        ? [formatDuration(group.duration, durationUnit)]
+        : []),
+      ...(columns.includes("completed") ? [group.completed] : []),
+    ]);
+  return [header, ...rows];
+};
+
+// Sessions as CSV text, oldest first, with project and category names
+export const buildSessionCsv = (
+  sessions: TimerSession[],
+  projects: Project[],
+  options: CsvExportOptions
+): string => {
+  const resolved = resolveNames(
+    [...sessions].sort(
+      (a, b) =>
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    ),
+    projects
+  );
+  return toCsv(
+    options.groupBy === "session"
+      ? buildSessionRows(resolved, options)
+      : buildAggregateRows(resolved, options)
+  );
+};
@@ -0,0 +1,86 @@
+import type { TimerSession } from "../types";
+
+export interface PauseStats {
+  pauseCount: number;
+  totalPausedTime: number; // milliseconds
+  focusedTime: number; // milliseconds
+}
+
+// Derive pause behavior from a session's pause/resume intervals. Sessions
+// recorded before pauses were tracked fall back to their actual duration.
+export const getPauseStats = (
+  session: Pick<
+    TimerSession,
+    "startTime" | "endTime" | "actualDuration" | "pauses"
+  >
+): PauseStats => {
+  const pauses = session.pauses ?? [];
+  const endTime = session.endTime ? new Date(session.endTime).getTime() : null;
+
+  const totalPausedTime = pauses.reduce((sum, pause) => {
+    const pauseEnd = pause.end
+      ? new Date(pause.end).getTime()
+      : endTime ?? new Date(pause.start).getTime();
+    return sum + Math.max(0, pauseEnd - new Date(pause.start).getTime());
+  }, 0);
+
+  const focusedTime =
+    pauses.length > 0 && endTime !== null
+      ? Math.max(
+          0,
+          endTime - new Date(session.startTime).getTime() - totalPausedTime
+        )
+      : session.actualDuration;
+
+  return {
+    pauseCount: pauses.length,
+    totalPausedTime,
+    focusedTime,
+  };
+};
+
+// Sum pause stats over a list of sessions
+export const summarizePauses = (
+  sessions: Array<
+    Pick<TimerSession, "startTime" | "endTime" | "actualDuration" | "pauses">
+  >
+): PauseStats & { averagePauses: number } => {
+  const totals = sessions.reduce(
+    (sum, session) => {
+      const stats = getPauseStats(session);
+      return {
+        pauseCount: sum.pauseCount + stats.pauseCount,
+        totalPausedTime: sum.totalPausedTime + stats.totalPausedTime,
+        focusedTime: sum.focusedTime + stats.focusedTime,
+      };
+    },
+    { pauseCount: 0, totalPausedTime: 0, focusedTime: 0 }
+  );
+
+  return {
+    ...totals,
+    averagePauses:
+      sessions.length > 0 ? totals.pauseCount / sessions.length : 0,
+  };
+};
+
+// Sessions whose time counts as focus: work sessions and stopwatch tracking
+export const isFocusSession = (
+  session: Pick<TimerSession, "type">
+): boolean => {
+  return session.type === "work" || session.type === "stopwatch";
+};
+
+// Planned work sessions, the only ones that can be completed or cut short
+export const isPomodoroSession = (
+  session: Pick<TimerSession, "type" | "openEnded">
+): boolean => {
+  return session.type === "work" && !session.openEnded;
+};
+
+// Sessions entered by hand rather than tracked with the timer
+export const isManualSession = (
+  session: Pick<TimerSession, "source">
+): boolean => {
+  return session.source === "manual";
+};
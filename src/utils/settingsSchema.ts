@@ -0,0 +1,225 @@
+import type { CycleStep, TimerPreset, UserSettings } from "../types";
+import { SETTINGS_PRESET_ID } from "./presets";
+import {
+  GENERAL_TEMPLATE_ID,
+  STARTER_CATEGORY_TEMPLATES,
+} from "./categoryTemplates";
+
+// Bumped whenever a stored field is renamed, reshaped or removed; add the
+// step that brings older records forward to SETTINGS_UPGRADES
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  workDuration: 25,
+  shortBreakDuration: 5,
+  longBreakDuration: 15,
+  longBreakInterval: 4,
+  audioEnabled: true,
+  notificationsEnabled: true,
+  autoStartBreaks: false,
+  overtimeEnabled: false,
+  presets: [],
+  activePresetId: SETTINGS_PRESET_ID,
+  theme: "system",
+  trashRetentionDays: 30,
+  archiveSuggestionWeeks: 4,
+  integrityCheckOnStartup: false,
+  categoryTemplates: STARTER_CATEGORY_TEMPLATES,
+  defaultCategoryTemplateId: GENERAL_TEMPLATE_ID,
+  projectTemplates: [],
+};
+
+type StoredSettings = Record<string, unknown>;
+
+// Upgrade steps keyed by the version they upgrade from. Records saved before
+// versioning (version 0) kept numbers typed into the form as strings.
+const SETTINGS_UPGRADES: Record<
+  number,
+  (raw: StoredSettings) => StoredSettings
+> = {
+  0: (raw) =>
+    Object.fromEntries(
+      Object.entries(raw).map(([key, value]) => [
+        key,
+        typeof DEFAULT_SETTINGS[key as keyof UserSettings] === "number" &&
+        typeof value === "string"
+          ? Number(value)
+          : value,
+      ])
+    ),
+  // Preset steps used to allow up to 240 minutes; bring them into the
+  // ranges the timer settings use instead of dropping every preset
+  1: (raw) => ({
+    ...raw,
+    presets: Array.isArray(raw.presets)
+      ? raw.presets.map((preset) => ({
+          ...preset,
+          steps: Array.isArray(preset?.steps)
+            ? preset.steps.map(clampStep)
+            : preset?.steps,
+        }))
+      : raw.presets,
+  }),
+};
+
+// Allowed range of each whole-number setting, also used by forms that edit
+// them, such as per-project overrides
+export const NUMBER_SETTING_RANGES = {
+  workDuration: { min: 1, max: 120 },
+  shortBreakDuration: { min: 1, max: 60 },
+  longBreakDuration: { min: 1, max: 120 },
+  longBreakInterval: { min: 1, max: 10 },
+  trashRetentionDays: { min: 1, max: 365 },
+  archiveSuggestionWeeks: { min: 1, max: 52 },
+} satisfies Partial<Record<keyof UserSettings, { min: number; max: number }>>;
+
+// A preset step's duration follows the range of the matching setting
+export const STEP_DURATION_RANGES: Record<
+  CycleStep["mode"],
+  { min: number; max: number }
+> = {
+  work: NUMBER_SETTING_RANGES.workDuration,
+  short_break: NUMBER_SETTING_RANGES.shortBreakDuration,
+  long_break: NUMBER_SETTING_RANGES.longBreakDuration,
+};
+
+// Round a step's duration into its range; steps of an unknown type are left
+// for validation to reject
+const clampStep = (step: CycleStep): CycleStep => {
+  const range = STEP_DURATION_RANGES[step?.mode];
+  if (!range || typeof step.duration !== "number") return step;
+  return {
+    ...step,
+    duration: Math.min(
+      range.max,
+      Math.max(range.min, Math.round(step.duration))
+    ),
+  };
+};
+
+type FieldRule = (value: unknown) => string | null;
+
+const wholeNumber =
+  ({ min, max }: { min: number; max: number }): FieldRule =>
+  (value) =>
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+      ? null
+      : `must be a whole number from ${min} to ${max}`;
+
+const boolean: FieldRule = (value) =>
+  typeof value === "boolean" ? null : "must be on or off";
+
+const text: FieldRule = (value) =>
+  typeof value === "string" ? null : "must be text";
+
+const list: FieldRule = (value) =>
+  Array.isArray(value) ? null : "must be a list";
+
+const oneOf =
+  (...options: string[]): FieldRule =>
+  (value) =>
+    options.includes(value as string)
+      ? null
+      : `must be one of ${options.join(", ")}`;
+
+const stepMode = oneOf(...Object.keys(STEP_DURATION_RANGES));
+
+const cycleStep: FieldRule = (value) => {
+  const step = (value ?? {}) as Partial<CycleStep>;
+  const modeProblem = stepMode(step.mode);
+  if (modeProblem) return `type ${modeProblem}`;
+  const durationProblem = wholeNumber(
+    STEP_DURATION_RANGES[step.mode as CycleStep["mode"]]
+  )(step.duration);
+  return durationProblem && `minutes ${durationProblem}`;
+};
+
+// Each preset needs a name and at least one valid step
+const presetList: FieldRule = (value) => {
+  if (!Array.isArray(value)) return "must be a list";
+  for (const preset of value as Partial<TimerPreset>[]) {
+    if (
+      typeof preset?.name !== "string" ||
+      !Array.isArray(preset.steps) ||
+      preset.steps.length === 0
+    ) {
+      return "must each have a name and at least one step";
+    }
+    for (const [index, step] of preset.steps.entries()) {
+      const problem = cycleStep(step);
+      if (problem) return `"${preset.name}" step ${index + 1} ${problem}`;
+    }
+  }
+  return null;
+};
+
+const SETTINGS_RULES: Record<keyof UserSettings, FieldRule> = {
+  workDuration: wholeNumber(NUMBER_SETTING_RANGES.workDuration),
+  shortBreakDuration: wholeNumber(NUMBER_SETTING_RANGES.shortBreakDuration),
+  longBreakDuration: wholeNumber(NUMBER_SETTING_RANGES.longBreakDuration),
+  longBreakInterval: wholeNumber(NUMBER_SETTING_RANGES.longBreakInterval),
+  audioEnabled: boolean,
+  notificationsEnabled: boolean,
+  autoStartBreaks: boolean,
+  overtimeEnabled: boolean,
+  presets: presetList,
+  activePresetId: text,
+  theme: oneOf("light", "dark", "system"),
+  trashRetentionDays: wholeNumber(NUMBER_SETTING_RANGES.trashRetentionDays),
+  archiveSuggestionWeeks: wholeNumber(
+    NUMBER_SETTING_RANGES.archiveSuggestionWeeks
+  ),
+  integrityCheckOnStartup: boolean,
+  categoryTemplates: list,
+  defaultCategoryTemplateId: text,
+  projectTemplates: list,
+};
+
+const SETTINGS_LABELS: Partial<Record<keyof UserSettings, string>> = {
+  workDuration: "Work duration",
+  shortBreakDuration: "Short break duration",
+  longBreakDuration: "Long break duration",
+  longBreakInterval: "Long break interval",
+  trashRetentionDays: "Days to keep deleted items",
+  archiveSuggestionWeeks: "Weeks before suggesting an archive",
+  presets: "Presets",
+};
+
+const isSettingsKey = (key: string): key is keyof UserSettings =>
+  key in SETTINGS_RULES;
+
+// Problems with the given fields, one message each; unknown fields are
+// reported too
+export const validateSettings = (updates: Partial<UserSettings>): string[] => {
+  return Object.entries(updates).flatMap(([key, value]) => {
+    if (!isSettingsKey(key)) return [`Unknown setting "${key}"`];
+    const problem = SETTINGS_RULES[key](value);
+    return problem ? [`${SETTINGS_LABELS[key] ?? key} ${problem}`] : [];
+  });
+};
+
+// Bring a stored record up to the current schema. Fields that are missing,
+// unknown or invalid fall back to their defaults rather than failing the load.
+export const parseStoredSettings = (raw: object | undefined): UserSettings => {
+  let record: StoredSettings = { ...raw };
+  const fromVersion =
+    typeof record.schemaVersion === "number" ? record.schemaVersion : 0;
+  for (
+    let version = fromVersion;
+    version < SETTINGS_SCHEMA_VERSION;
+    version++
+  ) {
+    record = SETTINGS_UPGRADES[version]?.(record) ?? record;
+  }
+
+  const settings = { ...DEFAULT_SETTINGS };
+  Object.entries(record).forEach(([key, value]) => {
+    if (isSettingsKey(key) && SETTINGS_RULES[key](value) === null) {
+      (settings as Record<string, unknown>)[key] = value;
+    }
+  });
+  return settings;
+};
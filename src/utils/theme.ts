@@ -1,3 +1,5 @@
+import { settingsRepository } from "../services/settingsRepository";
+
 // Simple theme management utility
 export type Theme = "light" | "dark" | "system";
 
@@ -17,41 +19,18 @@ export function applyTheme(theme: Theme): void {
       root.classList.add("dark");
     }
   }
-
-  // Save to localStorage with the same key as settings store
-  const currentSettings = JSON.parse(
-    localStorage.getItem("userSettings") || "{}"
-  );
-  const updatedSettings = { ...currentSettings, theme };
-  localStorage.setItem("userSettings", JSON.stringify(updatedSettings));
 }
 
-// Get current theme from localStorage (compatible with settings store)
+// Get the saved theme from the settings repository
 export function getCurrentTheme(): Theme {
-  const userSettings = localStorage.getItem("userSettings");
-
-  if (userSettings) {
-    try {
-      const settings = JSON.parse(userSettings);
-      if (
-        settings.theme &&
-        ["light", "dark", "system"].includes(settings.theme)
-      ) {
-        return settings.theme;
-      }
-    } catch (error) {
-      console.error("Error parsing userSettings:", error);
-    }
-  }
-
-  return "system";
+  return settingsRepository.get().theme;
 }
 
-// Toggle between light and dark themes
-export function toggleTheme(): void {
+// Toggle between light and dark themes, saving the choice
+export async function toggleTheme(): Promise<void> {
   const current = getCurrentTheme();
   const newTheme = current === "dark" ? "light" : "dark";
-  applyTheme(newTheme);
+  await settingsRepository.update({ theme: newTheme });
 }
 
 // Initialize theme on app start
@@ -0,0 +1,70 @@
+import type { Project, ProjectTimerSettings, UserSettings } from "../types";
+import { SETTINGS_PRESET_ID } from "./presets";
+import { validateSettings } from "./settingsSchema";
+import { SettingsValidationError } from "../services/settingsRepository";
+
+// Overrides that change the length or order of the work/break cycle
+const CYCLE_OVERRIDE_KEYS: Array<keyof ProjectTimerSettings> = [
+  "workDuration",
+  "shortBreakDuration",
+  "longBreakDuration",
+  "longBreakInterval",
+];
+
+// Drop unset fields so they never shadow the global settings
+export const cleanOverrides = (
+  overrides: ProjectTimerSettings = {}
+): ProjectTimerSettings => {
+  return Object.fromEntries(
+    Object.entries(overrides).filter(
+      ([, value]) =>
+        value !== undefined && !(typeof value === "number" && isNaN(value))
+    )
+  );
+};
+
+// Problems with a project's overrides, checked against the same rules as
+// the global settings
+export const validateOverrides = (
+  overrides?: ProjectTimerSettings
+): string[] => {
+  return validateSettings(cleanOverrides(overrides));
+};
+
+export const hasCycleOverrides = (
+  project?: Pick<Project, "settingsOverrides">
+) => {
+  const overrides = cleanOverrides(project?.settingsOverrides);
+  return CYCLE_OVERRIDE_KEYS.some((key) => key in overrides);
+};
+
+// The settings the timer runs with for a project. A project with its own
+// durations uses them in place of the global preset.
+export const resolveTimerSettings = <T extends Partial<UserSettings>>(
+  settings: T,
+  project?: Pick<Project, "settingsOverrides">
+): T => {
+  return {
+    ...settings,
+    ...cleanOverrides(project?.settingsOverrides),
+    ...(hasCycleOverrides(project) && { activePresetId: SETTINGS_PRESET_ID }),
+  };
+};
+
+// Whether two projects would give the timer the same settings
+export const haveSameOverrides = (
+  a?: Pick<Project, "settingsOverrides">,
+  b?: Pick<Project, "settingsOverrides">
+): boolean => {
+  return (
+    JSON.stringify(cleanOverrides(a?.settingsOverrides)) ===
+    JSON.stringify(cleanOverrides(b?.settingsOverrides))
+  );
+};
+
+// What to tell the user when a project can't be saved: the override problems
+// if that's why, otherwise the fallback
+export const getProjectErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof SettingsValidationError
+    ? error.problems.join(". ")
+    : fallback;
@@ -0,0 +1,28 @@
+import toast from "react-hot-toast";
+
+// Confirm a move to the trash with a toast that can take it back
+export const showUndoToast = (message: string, onUndo: () => Promise<void>) => {
+  toast(
+    (t) => (
+      <div className="flex items-center space-x-4">
+        <span>{message}</span>
+        <button
+          onClick={async () => {
+            toast.dismiss(t.id);
+            try {
+              await onUndo();
+              toast.success("Restored");
+            } catch (error) {
+              console.error("Error undoing delete:", error);
+              toast.error("Failed to restore");
+            }
+          }}
+          className="font-semibold text-blue-400 hover:text-blue-300"
+        >
+          Undo
+        </button>
+      </div>
+    ),
+    { icon: "🗑️", duration: 6000 }
+  );
+};